@@ -0,0 +1,134 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import { Clones } from "@openzeppelin/contracts/proxy/Clones.sol";
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { SealedBidAuction } from "./SealedBidAuction.sol";
+import { SealedBidAuctionBase } from "./SealedBidAuctionBase.sol";
+import { SealedBidAuctionERC20 } from "./SealedBidAuctionERC20.sol";
+
+/**
+ * @title AuctionFactory
+ * @notice Creates sealed-bid auctions and keeps a registry of every auction
+ * it created, so they can be enumerated on-chain.
+ * @dev Each auction is an EIP-1167 minimal proxy cloned from one of two
+ * templates deployed by the constructor: SealedBidAuction for ETH and
+ * SealedBidAuctionERC20 for a payment token. The factory owns a new auction
+ * just long enough to apply the parameters (pricing, tie-break, units,
+ * public reserve, slash bounty and soft close), then hands it to the
+ * creator, who can still deposit a lot or commit a hidden reserve before
+ * the first bid.
+ */
+contract AuctionFactory {
+    struct AuctionParams {
+        uint256 commitDuration;
+        uint256 revealDuration;
+        /// @dev ERC-20 token to bid in, or address(0) for ETH.
+        address paymentToken;
+        SealedBidAuctionBase.PricingMode pricingMode;
+        SealedBidAuctionBase.TieBreak tieBreak;
+        uint256 units;
+        uint256 reservePrice;
+        /// @dev Basis points of a slashed deposit paid to the slasher.
+        uint256 slashBounty;
+        /// @dev Soft close in seconds, all zero for none; see setSoftClose().
+        uint256 softCloseWindow;
+        uint256 softCloseExtension;
+        uint256 softCloseCap;
+    }
+
+    address public immutable ethImplementation;
+    address public immutable erc20Implementation;
+
+    address[] private _auctions;
+    mapping(address => address[]) private _auctionsByCreator;
+    mapping(address => address) public creatorOf;
+
+    event AuctionCreated(
+        address indexed auction,
+        address indexed creator,
+        address indexed paymentToken,
+        uint256 commitEndTime,
+        uint256 revealEndTime
+    );
+
+    constructor() {
+        // The templates only hold code for the clones and are never bid on.
+        // The ERC-20 one needs some non-zero token; this factory will do.
+        ethImplementation = address(new SealedBidAuction(0, 0, address(this)));
+        erc20Implementation = address(
+            new SealedBidAuctionERC20(0, 0, address(this), IERC20(address(this)))
+        );
+    }
+
+    /**
+     * @notice Creates an auction owned by the caller. Its phases start now.
+     * @param params Durations in seconds; `units` must be at least 1.
+     */
+    function createAuction(AuctionParams calldata params) external returns (address auction) {
+        if (params.paymentToken == address(0)) {
+            auction = Clones.clone(ethImplementation);
+            SealedBidAuction(auction).initialize(
+                params.commitDuration,
+                params.revealDuration,
+                address(this)
+            );
+        } else {
+            auction = Clones.clone(erc20Implementation);
+            SealedBidAuctionERC20(auction).initialize(
+                params.commitDuration,
+                params.revealDuration,
+                address(this),
+                IERC20(params.paymentToken)
+            );
+        }
+
+        SealedBidAuctionBase created = SealedBidAuctionBase(auction);
+        if (params.pricingMode != SealedBidAuctionBase.PricingMode.FirstPrice) {
+            created.setPricingMode(params.pricingMode);
+        }
+        if (params.tieBreak != SealedBidAuctionBase.TieBreak.EarliestCommit) {
+            created.setTieBreak(params.tieBreak);
+        }
+        if (params.units != 1) created.setUnits(params.units);
+        if (params.reservePrice != 0) created.setReservePrice(params.reservePrice);
+        if (params.slashBounty != 0) created.setSlashBounty(params.slashBounty);
+        if (params.softCloseWindow != 0) {
+            created.setSoftClose(
+                params.softCloseWindow,
+                params.softCloseExtension,
+                params.softCloseCap
+            );
+        }
+        created.transferOwnership(msg.sender);
+
+        _auctions.push(auction);
+        _auctionsByCreator[msg.sender].push(auction);
+        creatorOf[auction] = msg.sender;
+
+        emit AuctionCreated(
+            auction,
+            msg.sender,
+            params.paymentToken,
+            created.commitEndTime(),
+            created.revealEndTime()
+        );
+    }
+
+    function auctionCount() external view returns (uint256) {
+        return _auctions.length;
+    }
+
+    /// @notice Every auction created, oldest first.
+    function getAuctions() external view returns (address[] memory) {
+        return _auctions;
+    }
+
+    function getAuctionsByCreator(address creator) external view returns (address[] memory) {
+        return _auctionsByCreator[creator];
+    }
+
+    function isAuction(address auction) external view returns (bool) {
+        return creatorOf[auction] != address(0);
+    }
+}
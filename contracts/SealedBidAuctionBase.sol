@@ -0,0 +1,930 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import { Ownable } from "@openzeppelin/contracts/access/Ownable.sol";
+import { Pausable } from "@openzeppelin/contracts/utils/Pausable.sol";
+import { ReentrancyGuard } from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import { IERC721 } from "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import { IERC1155 } from "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+import { ERC721Holder } from "@openzeppelin/contracts/token/ERC721/utils/ERC721Holder.sol";
+import { ERC1155Holder } from "@openzeppelin/contracts/token/ERC1155/utils/ERC1155Holder.sol";
+
+/**
+ * @title SealedBidAuctionBase
+ * @notice A sealed-bid auction contract using the commit-reveal scheme.
+ * @dev Shared by the ETH (SealedBidAuction) and ERC-20 (SealedBidAuctionERC20)
+ * variants, which add the payable or token-pulling commitBid() and decide
+ * how deposits are paid out through _pay(). Each variant is either deployed
+ * directly or cloned by AuctionFactory, in which case its initialize()
+ * takes the place of the constructor.
+ * 
+ * How the Commit-Reveal Scheme Works:
+ * ------------------------------------
+ * 1. COMMIT PHASE: Bidders submit a hash of their bid amount and secret.
+ *    - The commitment also binds the chain, this auction and the bidder
+ *    - The payment sent with the commit is held in escrow as a deposit. Depositing
+ *      more than the bid masks the true amount; the bid must not exceed it
+ *    - Only the hash is visible on-chain; the actual bid remains secret
+ *    - Prevents front-running and bid manipulation
+ * 
+ *    - With a soft close (setSoftClose()), a commit in the last `window`
+ *      seconds pushes both phase ends back by `extension` seconds, up to
+ *      `cap` seconds in all, so a bid cannot be sniped in at the deadline.
+ *      commitEndTime and revealEndTime always hold the current ends
+ * 
+ * 2. REVEAL PHASE: Bidders reveal their actual bid by providing the
+ *    original amount and secret.
+ *    - Contract verifies the commitment matches the revealed values
+ *    - Invalid reveals are rejected
+ *    - A bid of zero reveals like any other: it cannot win, but the
+ *      deposit behind it is refunded rather than forfeited. getBidderState()
+ *      tracks each bidder from commit to refund
+ * 
+ * 3. FINALIZATION: The highest valid bid wins the auction. The clearing
+ *    price moves from the winner's deposit to the owner's proceeds, which
+ *    the owner collects with withdraw().
+ *    - Each reveal slots the bid into a ranking kept in storage, so
+ *      finalization reads only the winners and the best losing bid. Its
+ *      gas does not grow with the number of bidders, revealed or not.
+ *      Equal prices are ranked by the tie-break policy (setTieBreak()):
+ *      earliest commit (the default), earliest reveal, or a draw seeded by
+ *      every commitment. getTieBreakKey() shows each bidder's place; the
+ *      lower key wins.
+ *    - A multi-unit auction (setUnits()) sells that many identical units.
+ *      Bids carry a per-unit price and a quantity, and units go to the
+ *      highest prices first; the last winner may be partly filled. Each
+ *      winning unit is priced like a single-unit auction's: the bidder's own
+ *      price (FirstPrice, i.e. pay-as-bid), the highest rejected price
+ *      (SecondPrice), or the lowest accepted price (Uniform).
+ *    - In FirstPrice mode (the default) the winner pays their own bid. In
+ *      SecondPrice (Vickrey) mode they pay the second-highest revealed bid
+ *      or the reserve price, whichever is higher. The second-highest bid
+ *      equals their own on a tie and is zero with a single bidder.
+ *    - A bid below the reserve price cannot win. If no bid meets it, the
+ *      auction ends unsold: there is no winner, every deposit is refunded
+ *      and the lot goes back to the owner. The owner may keep the reserve
+ *      secret by committing to it like a bid and revealing it with
+ *      revealReserve() during the reveal phase; a reserve that is never
+ *      revealed also leaves the auction unsold.
+ *    - If the owner deposited a lot (an ERC-721 token or an ERC-1155
+ *      id/amount), it goes to the winner in the same transaction, or back
+ *      to the owner when nothing was revealed. A recipient that rejects the
+ *      transfer does not block finalization; it collects the lot with
+ *      claimLot() instead.
+ * 
+ * 4. REFUNDS: Every bidder pulls back what is left of their deposit with
+ *    claimRefund(): the whole deposit for losers, the excess over the
+ *    winning bid for the winner.
+ *    - A bidder who committed but never revealed gets nothing back. Once
+ *      the reveal phase is over, anyone can slash their deposit with
+ *      slashNonRevealers(): it goes to the owner's proceeds, less a bounty
+ *      share (setSlashBounty()) paid to the caller.
+ * 
+ * 5. CANCELLATION AND PAUSE: Until it is finalized, the owner can cancel
+ *    the auction with cancelAuction(), for example when it was created with
+ *    the wrong durations. Nothing more can be committed, revealed or
+ *    finalized; every deposit left, revealed or not, is refunded with
+ *    claimRefund(), and the lot goes back to the owner.
+ *    - For incident response the owner can pause() commits, reveals,
+ *      finalization and slashing, and unpause() them. Time spent paused
+ *      does not count: unpause() pushes back every phase end that had not
+ *      passed when the pause began, so no bidder loses reveal time to it.
+ * 
+ * Security Properties:
+ * - Front-running Prevention: Bids cannot be seen before commit phase ends
+ * - Bid Manipulation Prevention: Cannot change bid after commit
+ * - Commitment Binding: Must reveal exactly what was committed
+ * - Sender Binding: A commitment copied from another bidder's BidCommitted
+ *   event cannot be revealed by the copier, nor replayed on another auction
+ *   or chain
+ * 
+ * Off-chain Commitment Generation:
+ * --------------------------------
+ * The commitment (v2) is generated using:
+ *   keccak256(abi.encodePacked(block.chainid, address(this), bidder, bidAmount, secret))
+ * 
+ * Example (TypeScript/viem):
+ *   const commitment = keccak256(
+ *     encodePacked(
+ *       ["uint256", "address", "address", "uint256", "string"],
+ *       [chainId, auctionAddress, bidder, bidAmount, secret]
+ *     )
+ *   );
+ * computeCommitment() returns the same value on-chain. A bid for more than
+ * one unit of a multi-unit auction adds the quantity after the price, as
+ * computed by computeMultiUnitCommitment(), and is revealed with
+ * revealMultiUnitBid().
+ */
+abstract contract SealedBidAuctionBase is Ownable, Pausable, ReentrancyGuard, ERC721Holder, ERC1155Holder {
+    enum LotKind { None, ERC721, ERC1155 }
+    enum PricingMode { FirstPrice, SecondPrice, Uniform }
+    enum TieBreak { EarliestCommit, EarliestReveal, Random }
+    /// @dev Won is never stored; getBidderState() derives it from the allocation.
+    enum BidderState { None, Committed, Revealed, Refunded, Won }
+    
+    struct Lot {
+        LotKind kind;
+        address token;
+        uint256 id;
+        uint256 amount;
+    }
+    
+    uint256 public commitEndTime;
+    uint256 public revealEndTime;
+    
+    /// @dev Soft close, off while softCloseWindow is 0; see setSoftClose().
+    uint256 public softCloseWindow;
+    uint256 public softCloseExtension;
+    uint256 public softCloseCap;
+    /// @dev Seconds the soft close has added so far, at most softCloseCap.
+    uint256 public commitExtension;
+    /// @dev When the current pause began; 0 while not paused.
+    uint256 private _pausedAt;
+
+    mapping(address => bytes32) private _commitments;
+    mapping(address => uint256) private _revealedBids;
+    mapping(address => uint256) private _revealedQuantities;
+    /// @dev Tracks reveals apart from the price, which may be zero.
+    mapping(address => BidderState) private _bidderStates;
+    
+    address public winner;
+    uint256 public highestBid;
+    uint256 public secondHighestBid;
+    uint256 public clearingPrice;
+    bool public finalized;
+    bool public cancelled;
+    PricingMode public pricingMode;
+    TieBreak public tieBreak;
+    /// @dev Hash chain of every commitment, kept in Random mode only.
+    bytes32 public tieBreakSeed;
+    
+    uint256 public units;
+    uint256 public unitsSold;
+    mapping(address => uint256) private _allocations;
+    mapping(address => uint256) private _payments;
+    
+    uint256 public reservePrice;
+    bytes32 public reserveCommitment;
+    bool public reserveRevealed;
+    
+    address[] private _biddersList;
+    mapping(address => bool) private _bidderInList;
+    /// @dev Position in _biddersList, the EarliestCommit tie-break key.
+    mapping(address => uint256) private _commitOrder;
+    /// @dev Reveals so far and each bidder's place among them (EarliestReveal).
+    uint256 private _revealCount;
+    mapping(address => uint256) private _revealOrder;
+    
+    /// @dev Revealed bids, best first, as a linked list; see _rank().
+    address private _rankedHead;
+    mapping(address => address) private _rankedNext;
+    
+    mapping(address => uint256) private _deposits;
+    uint256 public proceeds;
+    
+    /// @dev Share of a slashed deposit paid to the slasher, in basis points.
+    uint256 public slashBounty;
+    mapping(address => uint256) private _forfeited;
+    
+    Lot public lot;
+    address public lotRecipient;
+    bool public lotDelivered;
+    
+    event BidCommitted(address indexed bidder, bytes32 commitment, uint256 deposit);
+    event BidRevealed(address indexed bidder, uint256 amount);
+    event AuctionFinalized(address indexed winner, uint256 highestBid);
+    event AuctionCancelled();
+    event BidRefunded(address indexed bidder, uint256 amount);
+    event ProceedsWithdrawn(address indexed to, uint256 amount);
+    event NonRevealSlashed(address indexed bidder, uint256 amount, uint256 bounty);
+    event SlashBountySet(uint256 bountyBps);
+    event PricingModeSet(PricingMode mode);
+    event TieBreakSet(TieBreak policy);
+    event SoftCloseSet(uint256 window, uint256 extension, uint256 cap);
+    event CommitPhaseExtended(uint256 commitEndTime, uint256 revealEndTime);
+    event PhasesResumed(uint256 commitEndTime, uint256 revealEndTime);
+    event UnitsSet(uint256 units);
+    event UnitsAllocated(address indexed bidder, uint256 units, uint256 payment);
+    event ReservePriceSet(uint256 reservePrice);
+    event ReserveCommitted(bytes32 commitment);
+    event ReserveRevealed(uint256 reservePrice);
+    event LotDeposited(LotKind kind, address indexed token, uint256 id, uint256 amount);
+    event LotDelivered(address indexed to);
+    event LotDeliveryFailed(address indexed recipient);
+    
+    error AlreadyInitialized();
+    error AuctionAlreadyCancelled();
+    error AuctionAlreadyFinalized();
+    error AuctionNotFinalized();
+    error BidderAlreadyCommitted();
+    error BidderAlreadyRevealed();
+    error BidNotRevealed();
+    error CommitmentMismatch();
+    error CommitPhaseEnded();
+    error CommitPhaseNotEnded();
+    error InsufficientDeposit();
+    error InvalidCommitment();
+    error InvalidLot();
+    error InvalidQuantity();
+    error InvalidSlashBounty();
+    error InvalidSoftClose();
+    error InvalidUnits();
+    error BiddingStarted();
+    error LotAlreadyDeposited();
+    error LotNotClaimable();
+    error NoCommitmentFound();
+    error NoBidToRefund();
+    error NoProceeds();
+    error NothingToSlash();
+    error ReserveAlreadyRevealed();
+    error RevealPhaseNotActive();
+    error RevealPhaseNotEnded();
+    error TransferFailed();
+    error Unauthorized();
+
+    constructor(
+        uint256 commitDuration,
+        uint256 revealDuration,
+        address initialOwner
+    ) Ownable(initialOwner) {
+        _initialize(commitDuration, revealDuration);
+    }
+    
+    function _initialize(uint256 commitDuration, uint256 revealDuration) private {
+        if (commitEndTime != 0) revert AlreadyInitialized();
+        
+        commitEndTime = block.timestamp + commitDuration;
+        revealEndTime = commitEndTime + revealDuration;
+        units = 1;
+    }
+    
+    /**
+     * @dev Sets up a clone, which starts with empty storage: no owner and no
+     * phases. Reverts on a contract that was constructed or already set up.
+     */
+    function _initializeClone(
+        uint256 commitDuration,
+        uint256 revealDuration,
+        address initialOwner
+    ) internal {
+        if (initialOwner == address(0)) revert OwnableInvalidOwner(address(0));
+        
+        _initialize(commitDuration, revealDuration);
+        _transferOwnership(initialOwner);
+    }
+    
+    /**
+     * @notice Chooses what the winner pays. Like the lot, it can only be set
+     * before the first commit.
+     */
+    function setPricingMode(PricingMode mode) 
+        external 
+        onlyOwner 
+        onlyDuringCommitPhase 
+    {
+        if (_biddersList.length != 0) revert BiddingStarted();
+        
+        pricingMode = mode;
+        emit PricingModeSet(mode);
+    }
+    
+    /**
+     * @notice Chooses who wins between equal prices: the earliest commit,
+     * the earliest reveal, or a random draw. The draw is seeded by the hash
+     * chain of all commitments, so it is fixed when the commit phase ends and
+     * no bidder knows it while choosing their secret, except the last
+     * committer, who could search for a secret that draws well. Only
+     * possible before the first commit.
+     */
+    function setTieBreak(TieBreak policy) 
+        external 
+        onlyOwner 
+        onlyDuringCommitPhase 
+    {
+        if (_biddersList.length != 0) revert BiddingStarted();
+        
+        tieBreak = policy;
+        emit TieBreakSet(policy);
+    }
+    
+    /**
+     * @notice Turns on the soft close: a commit less than `window` seconds
+     * before the end of the commit phase extends it, and the reveal phase
+     * with it, by `extension` seconds, until `cap` seconds have been added.
+     * All zero turns it off. Only possible before the first commit.
+     */
+    function setSoftClose(uint256 window, uint256 extension, uint256 cap) 
+        external 
+        onlyOwner 
+        onlyDuringCommitPhase 
+    {
+        if (_biddersList.length != 0) revert BiddingStarted();
+        if (window == 0 ? extension != 0 || cap != 0 : extension == 0 || cap < extension) {
+            revert InvalidSoftClose();
+        }
+        
+        softCloseWindow = window;
+        softCloseExtension = extension;
+        softCloseCap = cap;
+        emit SoftCloseSet(window, extension, cap);
+    }
+    
+    /**
+     * @notice Sells `count` identical units instead of one. Only possible
+     * before the first commit, and not together with a lot, which is
+     * delivered to a single winner.
+     */
+    function setUnits(uint256 count) 
+        external 
+        onlyOwner 
+        onlyDuringCommitPhase 
+    {
+        if (_biddersList.length != 0) revert BiddingStarted();
+        if (count == 0) revert InvalidUnits();
+        if (count > 1 && lot.kind != LotKind.None) revert InvalidLot();
+        
+        units = count;
+        emit UnitsSet(count);
+    }
+    
+    /**
+     * @notice Pays whoever slashes a non-revealed deposit `bountyBps` / 10000
+     * of it; the owner keeps the rest. Zero (the default) gives the owner
+     * everything. Only possible before the first commit.
+     */
+    function setSlashBounty(uint256 bountyBps) 
+        external 
+        onlyOwner 
+        onlyDuringCommitPhase 
+    {
+        if (_biddersList.length != 0) revert BiddingStarted();
+        if (bountyBps > 10_000) revert InvalidSlashBounty();
+        
+        slashBounty = bountyBps;
+        emit SlashBountySet(bountyBps);
+    }
+    
+    /**
+     * @notice Sets a public reserve price, replacing any committed one. Only
+     * possible before the first commit. Zero means no reserve.
+     */
+    function setReservePrice(uint256 price) 
+        external 
+        onlyOwner 
+        onlyDuringCommitPhase 
+    {
+        if (_biddersList.length != 0) revert BiddingStarted();
+        
+        reservePrice = price;
+        reserveCommitment = bytes32(0);
+        emit ReservePriceSet(price);
+    }
+    
+    /**
+     * @notice Commits to a hidden reserve price, replacing any public one.
+     * The commitment is computeCommitment(owner(), reservePrice, secret).
+     * Only possible before the first commit.
+     */
+    function commitReservePrice(bytes32 commitment) 
+        external 
+        onlyOwner 
+        onlyDuringCommitPhase 
+    {
+        if (_biddersList.length != 0) revert BiddingStarted();
+        if (commitment == bytes32(0)) revert InvalidCommitment();
+        
+        reservePrice = 0;
+        reserveCommitment = commitment;
+        emit ReserveCommitted(commitment);
+    }
+    
+    /**
+     * @notice Reveals the committed reserve price. Must happen during the
+     * reveal phase; an unrevealed reserve leaves the auction unsold.
+     */
+    function revealReserve(uint256 price, string calldata secret) 
+        external 
+        onlyOwner 
+        onlyDuringRevealPhase 
+        whenNotCancelled 
+    {
+        if (reserveCommitment == bytes32(0)) revert NoCommitmentFound();
+        if (reserveRevealed) revert ReserveAlreadyRevealed();
+        if (computeCommitment(msg.sender, price, secret) != reserveCommitment) {
+            revert CommitmentMismatch();
+        }
+        
+        reservePrice = price;
+        reserveRevealed = true;
+        emit ReserveRevealed(price);
+    }
+    
+    /**
+     * @notice Moves the lot for sale from the owner into escrow. The owner
+     * must first approve this auction for the token (setApprovalForAll works
+     * for both standards). Only possible once, before the first commit, so
+     * every bidder sees what they are bidding on.
+     * @param amount Number of ERC-1155 tokens; must be 1 for ERC-721.
+     */
+    function depositLot(LotKind kind, address token, uint256 id, uint256 amount) 
+        external 
+        onlyOwner 
+        onlyDuringCommitPhase 
+        nonReentrant 
+    {
+        if (lot.kind != LotKind.None) revert LotAlreadyDeposited();
+        if (_biddersList.length != 0) revert BiddingStarted();
+        if (kind == LotKind.None || token == address(0)) revert InvalidLot();
+        if (kind == LotKind.ERC721 ? amount != 1 : amount == 0) revert InvalidLot();
+        if (units > 1) revert InvalidLot();
+        
+        lot = Lot(kind, token, id, amount);
+        emit LotDeposited(kind, token, id, amount);
+        
+        if (kind == LotKind.ERC721) {
+            IERC721(token).safeTransferFrom(msg.sender, address(this), id);
+        } else {
+            IERC1155(token).safeTransferFrom(msg.sender, address(this), id, amount, "");
+        }
+    }
+    
+    /// @notice Payment token of the auction, or address(0) for ETH.
+    function paymentToken() public view virtual returns (address);
+    
+    function _commit(bytes32 commitment, uint256 deposit) 
+        internal 
+        onlyDuringCommitPhase 
+        whenNotCancelled 
+        whenNotPaused 
+    {
+        if (commitment == bytes32(0)) revert InvalidCommitment();
+        if (_commitments[msg.sender] != bytes32(0)) revert BidderAlreadyCommitted();
+        
+        _commitments[msg.sender] = commitment;
+        _deposits[msg.sender] = deposit;
+        _bidderStates[msg.sender] = BidderState.Committed;
+        
+        if (!_bidderInList[msg.sender]) {
+            _bidderInList[msg.sender] = true;
+            _commitOrder[msg.sender] = _biddersList.length;
+            _biddersList.push(msg.sender);
+        }
+        if (tieBreak == TieBreak.Random) {
+            tieBreakSeed = keccak256(abi.encodePacked(tieBreakSeed, commitment));
+        }
+        
+        emit BidCommitted(msg.sender, commitment, deposit);
+        
+        if (commitEndTime - block.timestamp < softCloseWindow) _extendCommitPhase();
+    }
+    
+    /// @dev Pushes both phase ends back by the soft-close extension, within the cap.
+    function _extendCommitPhase() private {
+        uint256 extension = softCloseExtension;
+        uint256 left = softCloseCap - commitExtension;
+        if (extension > left) extension = left;
+        if (extension == 0) return;
+        
+        commitExtension += extension;
+        commitEndTime += extension;
+        revealEndTime += extension;
+        emit CommitPhaseExtended(commitEndTime, revealEndTime);
+    }
+    
+    function revealBid(uint256 bidAmount, string calldata secret) 
+        external 
+        onlyDuringRevealPhase 
+        whenNotCancelled 
+        whenNotPaused 
+        nonReentrant 
+    {
+        _reveal(computeCommitment(msg.sender, bidAmount, secret), bidAmount, 1);
+    }
+    
+    /**
+     * @notice Reveals a bid for `quantity` units at `price` each, committed
+     * with computeMultiUnitCommitment(). The deposit must cover
+     * price * quantity.
+     */
+    function revealMultiUnitBid(uint256 price, uint256 quantity, string calldata secret) 
+        external 
+        onlyDuringRevealPhase 
+        whenNotCancelled 
+        whenNotPaused 
+        nonReentrant 
+    {
+        if (quantity == 0 || quantity > units) revert InvalidQuantity();
+        
+        _reveal(computeMultiUnitCommitment(msg.sender, price, quantity, secret), price, quantity);
+    }
+    
+    function _reveal(bytes32 expected, uint256 price, uint256 quantity) private {
+        bytes32 commitment = _commitments[msg.sender];
+        if (commitment == bytes32(0)) revert NoCommitmentFound();
+        if (_bidderStates[msg.sender] != BidderState.Committed) revert BidderAlreadyRevealed();
+        
+        if (expected != commitment) revert CommitmentMismatch();
+        if (price * quantity > _deposits[msg.sender]) revert InsufficientDeposit();
+        
+        _bidderStates[msg.sender] = BidderState.Revealed;
+        _revealedBids[msg.sender] = price;
+        _revealedQuantities[msg.sender] = quantity;
+        if (tieBreak == TieBreak.EarliestReveal) {
+            _revealOrder[msg.sender] = _revealCount++;
+        }
+        if (price != 0) _rank(msg.sender, price);
+        
+        emit BidRevealed(msg.sender, price);
+    }
+    
+    function finalizeAuction() 
+        external 
+        onlyAfterRevealPhase 
+        whenNotCancelled 
+        whenNotPaused 
+        nonReentrant 
+    {
+        if (finalized) revert AuctionAlreadyFinalized();
+        
+        if (msg.sender != owner() && !hasRevealed(msg.sender)) {
+            revert Unauthorized();
+        }
+        
+        (uint256 lowestAccepted, uint256 highestRejected, uint256 count) = _allocate();
+        
+        uint256 unitPrice = pricingMode == PricingMode.SecondPrice ? highestRejected : lowestAccepted;
+        if (unitPrice < reservePrice) unitPrice = reservePrice;
+        
+        // The winners are the first `count` ranked bids.
+        uint256 total = 0;
+        uint256 sold = 0;
+        address bidder = _rankedHead;
+        for (uint256 i = 0; i < count; i++) {
+            uint256 quantity = _allocations[bidder];
+            uint256 price = pricingMode == PricingMode.FirstPrice ? _revealedBids[bidder] : unitPrice;
+            uint256 payment = price * quantity;
+            
+            _payments[bidder] = payment;
+            _deposits[bidder] -= payment;
+            total += payment;
+            sold += quantity;
+            emit UnitsAllocated(bidder, quantity, payment);
+            bidder = _rankedNext[bidder];
+        }
+        
+        winner = count == 0 ? address(0) : _rankedHead;
+        highestBid = _revealedBids[_rankedHead];
+        secondHighestBid = highestRejected;
+        if (count != 0) {
+            clearingPrice = pricingMode == PricingMode.FirstPrice ? lowestAccepted : unitPrice;
+        }
+        unitsSold = sold;
+        proceeds += total;
+        finalized = true;
+        
+        emit AuctionFinalized(winner, highestBid);
+        
+        if (lot.kind != LotKind.None) {
+            _deliverLot(winner == address(0) ? owner() : winner);
+        }
+    }
+    
+    /**
+     * @notice Calls the auction off before it is finalized. Every deposit
+     * still held becomes refundable, revealed or not, and the lot goes back
+     * to the owner.
+     */
+    function cancelAuction() 
+        external 
+        onlyOwner 
+        whenNotCancelled 
+        nonReentrant 
+    {
+        if (finalized) revert AuctionAlreadyFinalized();
+        
+        cancelled = true;
+        emit AuctionCancelled();
+        
+        if (lot.kind != LotKind.None) _deliverLot(owner());
+    }
+    
+    /// @notice Stops commits, reveals, finalization and slashing until unpause().
+    function pause() external onlyOwner {
+        _pause();
+        _pausedAt = block.timestamp;
+    }
+    
+    /**
+     * @notice Resumes the auction. Phase ends still ahead when the pause
+     * began move back by the time spent paused; ends already passed stay.
+     */
+    function unpause() external onlyOwner {
+        _unpause();
+        uint256 pausedFor = block.timestamp - _pausedAt;
+        if (_pausedAt <= commitEndTime) commitEndTime += pausedFor;
+        if (_pausedAt <= revealEndTime) revealEndTime += pausedFor;
+        _pausedAt = 0;
+        emit PhasesResumed(commitEndTime, revealEndTime);
+    }
+    
+    /**
+     * @dev Hands out the units to the ranked bids in order until they run out
+     * or the next price is below the reserve. Returns the lowest accepted and
+     * highest rejected prices and the number of winners. Only the first
+     * units + 1 ranked bids are ever read, so the cost does not depend on
+     * how many bidders committed or revealed.
+     */
+    function _allocate() 
+        private 
+        returns (uint256 lowestAccepted, uint256 highestRejected, uint256 count) 
+    {
+        uint256 remaining = units;
+        bool reserveHidden = reserveCommitment != bytes32(0) && !reserveRevealed;
+        
+        for (address bidder = _rankedHead; bidder != address(0); bidder = _rankedNext[bidder]) {
+            uint256 price = _revealedBids[bidder];
+            if (remaining == 0 || reserveHidden || price < reservePrice) {
+                highestRejected = price;
+                break;
+            }
+            
+            uint256 quantity = _revealedQuantities[bidder];
+            if (quantity > remaining) {
+                // Partly filled: the units left over are the highest rejected.
+                quantity = remaining;
+                highestRejected = price;
+            }
+            _allocations[bidder] = quantity;
+            count++;
+            remaining -= quantity;
+            lowestAccepted = price;
+            if (highestRejected != 0) break;
+        }
+    }
+    
+    /**
+     * @dev Inserts a revealed bid into the ranking: highest price first, and
+     * the lower tie-break key first between equal prices. Every ranked bid takes at least one unit, so only the first
+     * units + 1 can win or set the highest rejected price; a bid that ranks
+     * below them is left out, and the walk stops there. In a single-unit
+     * auction that makes this O(1): the list only needs the leader and the
+     * runner-up.
+     */
+    function _rank(address bidder, uint256 price) private {
+        uint256 key = getTieBreakKey(bidder);
+        address previous = address(0);
+        address current = _rankedHead;
+        
+        for (uint256 depth = 0; depth <= units; depth++) {
+            if (current == address(0) || _ranksAbove(price, key, current)) {
+                if (previous == address(0)) {
+                    _rankedHead = bidder;
+                } else {
+                    _rankedNext[previous] = bidder;
+                }
+                _rankedNext[bidder] = current;
+                return;
+            }
+            previous = current;
+            current = _rankedNext[current];
+        }
+    }
+    
+    function _ranksAbove(uint256 price, uint256 key, address other) private view returns (bool) {
+        uint256 otherPrice = _revealedBids[other];
+        return price > otherPrice || (price == otherPrice && key < getTieBreakKey(other));
+    }
+    
+    /**
+     * @notice Sends the lot to `to` when finalization or cancellation could not deliver it to
+     * the recipient (for example a contract without a token receiver hook).
+     * Only the recipient can call this.
+     */
+    function claimLot(address to) external nonReentrant {
+        if (!(finalized || cancelled) || lotDelivered || msg.sender != lotRecipient) revert LotNotClaimable();
+        
+        lotDelivered = true;
+        emit LotDelivered(to);
+        if (!_tryTransferLot(to)) revert TransferFailed();
+    }
+    
+    function claimRefund() 
+        external 
+        nonReentrant 
+    {
+        if (!finalized && !cancelled) revert AuctionNotFinalized();
+        
+        uint256 amount = _deposits[msg.sender];
+        if (amount == 0) revert NoBidToRefund();
+        // The deposit of a bid that was never revealed is forfeited, unless
+        // the auction was cancelled.
+        bool revealed = hasRevealed(msg.sender);
+        if (!revealed && !cancelled) revert BidNotRevealed();
+        
+        _deposits[msg.sender] = 0;
+        _bidderStates[msg.sender] = BidderState.Refunded;
+        
+        emit BidRefunded(msg.sender, amount);
+        _pay(msg.sender, amount);
+    }
+    
+    /**
+     * @notice Forfeits the deposits of `bidders`, who all committed but never
+     * revealed. Anyone can call this once the reveal phase is over, before
+     * or after finalization; the caller receives the bounty share.
+     * @dev Entries with nothing to slash (revealed, or already slashed,
+     * perhaps by a call that landed first) are skipped so one of them
+     * cannot sink the batch. Reverts only if none was slashed.
+     */
+    function slashNonRevealers(address[] calldata bidders) 
+        external 
+        onlyAfterRevealPhase 
+        whenNotCancelled 
+        whenNotPaused 
+        nonReentrant 
+    {
+        uint256 totalBounty = 0;
+        uint256 slashedCount = 0;
+        for (uint256 i = 0; i < bidders.length; i++) {
+            address bidder = bidders[i];
+            uint256 amount = _deposits[bidder];
+            if (amount == 0 || hasRevealed(bidder)) continue;
+            
+            uint256 bounty = amount * slashBounty / 10_000;
+            _deposits[bidder] = 0;
+            _forfeited[bidder] = amount;
+            proceeds += amount - bounty;
+            totalBounty += bounty;
+            emit NonRevealSlashed(bidder, amount, bounty);
+            slashedCount++;
+        }
+        
+        if (slashedCount == 0) revert NothingToSlash();
+        if (totalBounty != 0) _pay(msg.sender, totalBounty);
+    }
+    
+    function withdraw() 
+        external 
+        onlyOwner 
+        nonReentrant 
+    {
+        uint256 amount = proceeds;
+        if (amount == 0) revert NoProceeds();
+        
+        proceeds = 0;
+        
+        emit ProceedsWithdrawn(owner(), amount);
+        _pay(owner(), amount);
+    }
+    
+    function computeCommitment(
+        address bidder,
+        uint256 bidAmount,
+        string calldata secret
+    ) public view returns (bytes32) {
+        return keccak256(
+            abi.encodePacked(block.chainid, address(this), bidder, bidAmount, secret)
+        );
+    }
+    
+    /**
+     * @notice Commitment for a bid of `quantity` units at `price` each in a
+     * multi-unit auction.
+     */
+    function computeMultiUnitCommitment(
+        address bidder,
+        uint256 price,
+        uint256 quantity,
+        string calldata secret
+    ) public view returns (bytes32) {
+        return keccak256(
+            abi.encodePacked(block.chainid, address(this), bidder, price, quantity, secret)
+        );
+    }
+    
+    function getCommitment(address bidder) external view returns (bytes32) {
+        return _commitments[bidder];
+    }
+    
+    function getRevealedBid(address bidder) external view returns (uint256) {
+        return _revealedBids[bidder];
+    }
+    
+    /// @notice Units the bidder revealed a bid for; 1 for a single-unit bid.
+    function getRevealedQuantity(address bidder) external view returns (uint256) {
+        return _revealedQuantities[bidder];
+    }
+    
+    /// @notice Units won by the bidder, set on finalize.
+    function getAllocation(address bidder) external view returns (uint256) {
+        return _allocations[bidder];
+    }
+    
+    /// @notice Amount taken from the bidder's deposit for the units they won.
+    function getPayment(address bidder) external view returns (uint256) {
+        return _payments[bidder];
+    }
+    
+    /**
+     * @notice Where `bidder` stands between equal prices under the tie-break
+     * policy; the lower key wins. The commit position, the reveal position
+     * (once revealed), or the bidder's draw from tieBreakSeed (final once the
+     * commit phase ends).
+     */
+    function getTieBreakKey(address bidder) public view returns (uint256) {
+        if (tieBreak == TieBreak.EarliestReveal) return _revealOrder[bidder];
+        if (tieBreak == TieBreak.Random) {
+            return uint256(keccak256(abi.encodePacked(tieBreakSeed, bidder)));
+        }
+        return _commitOrder[bidder];
+    }
+    
+    /// @notice Deposit the bidder lost to slashNonRevealers(), if any.
+    function getForfeited(address bidder) external view returns (uint256) {
+        return _forfeited[bidder];
+    }
+    
+    function getDeposit(address bidder) external view returns (uint256) {
+        return _deposits[bidder];
+    }
+    
+    function getAllBidders() external view returns (address[] memory) {
+        return _biddersList;
+    }
+    
+    function hasCommitted(address bidder) external view returns (bool) {
+        return _commitments[bidder] != bytes32(0);
+    }
+    
+    /**
+     * @notice True once the bidder has revealed, even a bid of zero. Read
+     * from the quantity, at least 1 for every reveal, since a non-revealer
+     * refunded after a cancellation is Refunded too.
+     */
+    function hasRevealed(address bidder) public view returns (bool) {
+        return _revealedQuantities[bidder] != 0;
+    }
+    
+    /**
+     * @notice Where the bidder stands: Committed until they reveal, then
+     * Revealed until they claim their refund. A bidder who won units is Won
+     * from finalization on, refunded or not. A non-revealer stays Committed,
+     * slashed or not (see getForfeited()), until refunded after a
+     * cancellation.
+     */
+    function getBidderState(address bidder) external view returns (BidderState) {
+        if (finalized && _allocations[bidder] != 0) return BidderState.Won;
+        return _bidderStates[bidder];
+    }
+    
+    /// @dev Sends `amount` of the payment asset out of escrow to `to`.
+    function _pay(address to, uint256 amount) internal virtual;
+    
+    /// @dev Sends the lot to `recipient`, or leaves it for claimLot() if that fails.
+    function _deliverLot(address recipient) private {
+        lotRecipient = recipient;
+        if (_tryTransferLot(recipient)) {
+            lotDelivered = true;
+            emit LotDelivered(recipient);
+        } else {
+            emit LotDeliveryFailed(recipient);
+        }
+    }
+    
+    function _tryTransferLot(address to) private returns (bool) {
+        Lot memory held = lot;
+        if (held.kind == LotKind.ERC721) {
+            try IERC721(held.token).safeTransferFrom(address(this), to, held.id) {
+                return true;
+            } catch {
+                return false;
+            }
+        }
+        try IERC1155(held.token).safeTransferFrom(address(this), to, held.id, held.amount, "") {
+            return true;
+        } catch {
+            return false;
+        }
+    }
+    
+    modifier whenNotCancelled() {
+        if (cancelled) revert AuctionAlreadyCancelled();
+        _;
+    }
+    
+    modifier onlyDuringCommitPhase() {
+        if (block.timestamp > commitEndTime) revert CommitPhaseEnded();
+        _;
+    }
+    
+    modifier onlyDuringRevealPhase() {
+        if (block.timestamp < commitEndTime) revert CommitPhaseNotEnded();
+        if (block.timestamp > revealEndTime) revert RevealPhaseNotActive();
+        _;
+    }
+    
+    modifier onlyAfterRevealPhase() {
+        if (block.timestamp <= revealEndTime) revert RevealPhaseNotEnded();
+        _;
+    }
+}
@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { SealedBidAuctionBase } from "./SealedBidAuctionBase.sol";
+
+/**
+ * @title SealedBidAuctionERC20
+ * @notice Sealed-bid auction paid in an ERC-20 token. Bidders approve the
+ * auction for their deposit, then commitBid() pulls it into escrow. Bid
+ * amounts are in the token's smallest unit. See SealedBidAuctionBase for the
+ * commit-reveal scheme.
+ * @dev Deposits are credited with the amount actually received, so tokens
+ * that take a fee on transfer cannot leave escrow short.
+ */
+contract SealedBidAuctionERC20 is SealedBidAuctionBase {
+    using SafeERC20 for IERC20;
+    
+    IERC20 private _token;
+    
+    error InvalidPaymentToken();
+    
+    constructor(
+        uint256 commitDuration,
+        uint256 revealDuration,
+        address initialOwner,
+        IERC20 token
+    ) SealedBidAuctionBase(commitDuration, revealDuration, initialOwner) {
+        _setToken(token);
+    }
+    
+    /// @notice Constructor for a clone made by AuctionFactory.
+    function initialize(
+        uint256 commitDuration,
+        uint256 revealDuration,
+        address initialOwner,
+        IERC20 token
+    ) external {
+        _initializeClone(commitDuration, revealDuration, initialOwner);
+        _setToken(token);
+    }
+    
+    function commitBid(bytes32 commitment, uint256 deposit) external nonReentrant {
+        uint256 balanceBefore = _token.balanceOf(address(this));
+        _token.safeTransferFrom(msg.sender, address(this), deposit);
+        _commit(commitment, _token.balanceOf(address(this)) - balanceBefore);
+    }
+    
+    function paymentToken() public view override returns (address) {
+        return address(_token);
+    }
+    
+    function _pay(address to, uint256 amount) internal override {
+        _token.safeTransfer(to, amount);
+    }
+    
+    function _setToken(IERC20 token) private {
+        if (address(token) == address(0)) revert InvalidPaymentToken();
+        _token = token;
+    }
+}
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import { ERC721 } from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+
+/**
+ * @title MockERC721
+ * @notice Freely mintable NFT, for tests and local lots only.
+ */
+contract MockERC721 is ERC721 {
+    constructor() ERC721("Mock Lot", "LOT") {}
+    
+    function mint(address to, uint256 id) external {
+        _mint(to, id);
+    }
+}
@@ -1,9 +1,16 @@
 import hardhatToolboxViemPlugin from "@nomicfoundation/hardhat-toolbox-viem";
 import { configVariable, defineConfig } from "hardhat/config";
+import { auctionTasks } from "./tasks/auction/index.js";
 
 export default defineConfig({
   plugins: [hardhatToolboxViemPlugin],
+  tasks: auctionTasks,
   solidity: {
+    // Interfaces used through viem and Ignition to approve an auction lot.
+    npmFilesToBuild: [
+      "@openzeppelin/contracts/token/ERC721/IERC721.sol",
+      "@openzeppelin/contracts/token/ERC1155/IERC1155.sol",
+    ],
     profiles: {
       default: {
         version: "0.8.28",
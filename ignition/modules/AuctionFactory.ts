@@ -0,0 +1,8 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+export default buildModule("AuctionFactory", (m) => {
+  // The constructor deploys the ETH and ERC-20 auction templates itself.
+  const auctionFactory = m.contract("AuctionFactory");
+
+  return { auctionFactory };
+});
@@ -3,11 +3,21 @@ import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
 export default buildModule("SealedBidAuction", (m) => {
   const deployer = m.getAccount(0);
 
+  const commitDuration = m.getParameter("commitDuration", 7n * 24n * 60n * 60n);
+  const revealDuration = m.getParameter("revealDuration", 3n * 24n * 60n * 60n);
+  // Lowest bid that can win, in base units of the payment asset (0 = none).
+  const reservePrice = m.getParameter("reservePrice", 0n);
+  // Identical units for sale; bids above 1 carry a quantity.
+  const units = m.getParameter("units", 1n);
+
   const sealedBidAuction = m.contract("SealedBidAuction", [
-    7n * 24n * 60n * 60n,
-    3n * 24n * 60n * 60n,
+    commitDuration,
+    revealDuration,
     deployer,
   ]);
 
+  m.call(sealedBidAuction, "setReservePrice", [reservePrice]);
+  m.call(sealedBidAuction, "setUnits", [units]);
+
   return { sealedBidAuction };
 });
@@ -0,0 +1,25 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+export default buildModule("SealedBidAuctionERC20", (m) => {
+  const deployer = m.getAccount(0);
+
+  const paymentToken = m.getParameter<string>("paymentToken");
+  const commitDuration = m.getParameter("commitDuration", 7n * 24n * 60n * 60n);
+  const revealDuration = m.getParameter("revealDuration", 3n * 24n * 60n * 60n);
+  // Lowest bid that can win, in base units of the payment asset (0 = none).
+  const reservePrice = m.getParameter("reservePrice", 0n);
+  // Identical units for sale; bids above 1 carry a quantity.
+  const units = m.getParameter("units", 1n);
+
+  const sealedBidAuction = m.contract("SealedBidAuctionERC20", [
+    commitDuration,
+    revealDuration,
+    deployer,
+    paymentToken,
+  ]);
+
+  m.call(sealedBidAuction, "setReservePrice", [reservePrice]);
+  m.call(sealedBidAuction, "setUnits", [units]);
+
+  return { sealedBidAuction };
+});
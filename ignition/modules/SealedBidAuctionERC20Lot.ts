@@ -0,0 +1,9 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import SealedBidAuctionERC20Module from "./SealedBidAuctionERC20.js";
+import { depositLot } from "./SealedBidAuctionLot.js";
+
+export default buildModule("SealedBidAuctionERC20Lot", (m) => {
+  const { sealedBidAuction } = m.useModule(SealedBidAuctionERC20Module);
+  depositLot(m, sealedBidAuction);
+  return { sealedBidAuction };
+});
@@ -0,0 +1,42 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import SealedBidAuctionModule from "./SealedBidAuction.js";
+
+type ModuleBuilder = Parameters<Parameters<typeof buildModule>[1]>[0];
+
+/**
+ * Moves the seller's lot into `auction`. The lot is owned by account 0, which
+ * is also the auction owner. Parameters:
+ *   lotKind   1 = ERC-721, 2 = ERC-1155 (SealedBidAuctionBase.LotKind)
+ *   lotToken  NFT contract address
+ *   lotId     token id
+ *   lotAmount number of ERC-1155 tokens (1 for ERC-721)
+ */
+export function depositLot(
+  m: ModuleBuilder,
+  auction: Parameters<ModuleBuilder["call"]>[0]
+): void {
+  const lotKind = m.getParameter<number>("lotKind");
+  const lotToken = m.getParameter<string>("lotToken");
+  const lotId = m.getParameter<bigint>("lotId");
+  const lotAmount = m.getParameter("lotAmount", 1n);
+
+  // setApprovalForAll has the same signature on ERC-721 and ERC-1155, so the
+  // IERC721 ABI serves both. The approval is revoked once the lot is in.
+  const token = m.contractAt("IERC721", lotToken, { id: "LotToken" });
+  const approve = m.call(token, "setApprovalForAll", [auction, true], {
+    id: "ApproveLot",
+  });
+  const deposit = m.call(auction, "depositLot", [lotKind, lotToken, lotId, lotAmount], {
+    after: [approve],
+  });
+  m.call(token, "setApprovalForAll", [auction, false], {
+    id: "RevokeLotApproval",
+    after: [deposit],
+  });
+}
+
+export default buildModule("SealedBidAuctionLot", (m) => {
+  const { sealedBidAuction } = m.useModule(SealedBidAuctionModule);
+  depositLot(m, sealedBidAuction);
+  return { sealedBidAuction };
+});
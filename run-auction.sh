@@ -12,6 +12,12 @@ cd "$PROJECT_DIR"
 
 NUM_BIDDERS=${1:-10}
 
+if [ -z "$AUCTION_VAULT_PASSPHRASE" ]; then
+    read -rsp "Bid vault passphrase: " AUCTION_VAULT_PASSPHRASE
+    echo ""
+fi
+export AUCTION_VAULT_PASSPHRASE
+
 echo "Configuration:"
 echo "  - Number of bidders: $NUM_BIDDERS"
 echo ""
@@ -74,43 +80,7 @@ fi
 
 echo ""
 echo "*** Contract deployed at: $AUCTION_ADDRESS ***"
-echo "*** Updating scripts with new address... ***"
-
-AUCTION_ADDRESS_LOWER=$(echo "$AUCTION_ADDRESS" | tr '[:upper:]' '[:lower:]')
-
-cat > /tmp/update_address.js << 'EOF'
-const fs = require('fs');
-const path = require('path');
-
-const newAddress = process.argv[2];
-const scriptsDir = path.join(process.cwd(), 'scripts');
-
-function updateFile(filePath) {
-    const content = fs.readFileSync(filePath, 'utf8');
-    if (content.match(/0x[a-fA-F0-9]{40}/)) {
-        const newContent = content.replace(/0x[a-fA-F0-9]{40}/g, newAddress);
-        fs.writeFileSync(filePath, newContent);
-        console.log('Updated:', filePath);
-    }
-}
-
-function walkDir(dir) {
-    const files = fs.readdirSync(dir);
-    for (const file of files) {
-        const fullPath = path.join(dir, file);
-        if (fs.statSync(fullPath).isDirectory()) {
-            walkDir(fullPath);
-        } else if (file.endsWith('.ts')) {
-            updateFile(fullPath);
-        }
-    }
-}
-
-walkDir(scriptsDir);
-console.log('\nAll scripts updated with address:', newAddress);
-EOF
-
-node /tmp/update_address.js "$AUCTION_ADDRESS_LOWER"
+echo "*** Scripts resolve it from ignition/deployments/chain-31337 ***"
 
 echo ""
 echo "=========================================="
@@ -0,0 +1,229 @@
+import { getAddress } from "viem";
+import type { Address } from "viem";
+import type { AuctionClient, PricingMode, TieBreak } from "./auction-client.js";
+
+/** A revealed bid for `quantity` units at `price` each. */
+export interface RevealedBid {
+  bidder: Address;
+  price: bigint;
+  quantity: bigint;
+  /**
+   * getTieBreakKey() on-chain: the lower key wins between equal prices.
+   * Without it, equal prices keep their order in the list.
+   */
+  tieKey?: bigint;
+}
+
+/** The auction settings that decide who wins what. */
+export interface AllocationRules {
+  units: bigint;
+  pricing: PricingMode;
+  reservePrice: bigint;
+  /** A committed reserve that was never revealed: nothing is sold. */
+  reserveHidden: boolean;
+}
+
+export interface UnitAllocation {
+  bidder: Address;
+  units: bigint;
+  /** Taken from the bidder's deposit for all of their units. */
+  payment: bigint;
+}
+
+/** Outcome of finalizeAuction(), field for field. */
+export interface AllocationResult {
+  /** Winners; computeAllocation() lists them highest price first. */
+  allocations: UnitAllocation[];
+  highestBid: bigint;
+  /** Highest price that won no unit (secondHighestBid() on-chain). */
+  secondHighestBid: bigint;
+  clearingPrice: bigint;
+  unitsSold: bigint;
+  /** Total charged to the winners. */
+  proceeds: bigint;
+}
+
+/** A bidder who got fewer units than they bid for because of a tie. */
+export interface TieLoss {
+  bidder: Address;
+  price: bigint;
+  /** Winners at the same price who ranked ahead. */
+  beatenBy: Address[];
+}
+
+/** Why the winners of a tie ranked ahead, by policy. */
+const TIE_BREAK_REASONS: Record<TieBreak, string> = {
+  "earliest-commit": "committed earlier",
+  "earliest-reveal": "revealed earlier",
+  random: "drew a lower tie-break key",
+};
+
+/**
+ * Computes the allocation finalizeAuction() should produce, so a bidder or
+ * operator can check the contract's result independently. Equal prices are
+ * ranked by tie-break key; bids without one should be in commit order.
+ */
+export function computeAllocation(
+  bids: readonly RevealedBid[],
+  rules: AllocationRules
+): AllocationResult {
+  // Array.prototype.sort is stable, so equal prices without keys keep their order.
+  const ranked = bids.filter((bid) => bid.price > 0n).sort((a, b) => {
+    if (a.price !== b.price) return a.price > b.price ? -1 : 1;
+    const [aKey, bKey] = [a.tieKey ?? 0n, b.tieKey ?? 0n];
+    return aKey === bKey ? 0 : aKey < bKey ? -1 : 1;
+  });
+
+  const filled: { bid: RevealedBid; units: bigint }[] = [];
+  let remaining = rules.units;
+  let lowestAccepted = 0n;
+  let highestRejected = 0n;
+  for (const bid of ranked) {
+    if (remaining === 0n || rules.reserveHidden || bid.price < rules.reservePrice) {
+      highestRejected = bid.price;
+      break;
+    }
+    const units = bid.quantity < remaining ? bid.quantity : remaining;
+    filled.push({ bid, units });
+    remaining -= units;
+    lowestAccepted = bid.price;
+    if (units < bid.quantity) {
+      // Partly filled: the units left over are the highest rejected.
+      highestRejected = bid.price;
+      break;
+    }
+  }
+
+  let unitPrice = rules.pricing === "second-price" ? highestRejected : lowestAccepted;
+  if (unitPrice < rules.reservePrice) {
+    unitPrice = rules.reservePrice;
+  }
+
+  const allocations = filled.map(({ bid, units }) => ({
+    bidder: getAddress(bid.bidder),
+    units,
+    payment: (rules.pricing === "first-price" ? bid.price : unitPrice) * units,
+  }));
+  return {
+    allocations,
+    highestBid: ranked[0]?.price ?? 0n,
+    secondHighestBid: highestRejected,
+    clearingPrice:
+      allocations.length === 0
+        ? 0n
+        : rules.pricing === "first-price"
+          ? lowestAccepted
+          : unitPrice,
+    unitsSold: allocations.reduce((sum, allocation) => sum + allocation.units, 0n),
+    proceeds: allocations.reduce((sum, allocation) => sum + allocation.payment, 0n),
+  };
+}
+
+/**
+ * Lists every difference between an expected and an actual allocation, one
+ * line each; empty when they agree. Winners are matched by address, so their
+ * order does not matter.
+ */
+export function compareAllocation(
+  expected: AllocationResult,
+  actual: AllocationResult
+): string[] {
+  const mismatches: string[] = [];
+  for (const field of [
+    "highestBid",
+    "secondHighestBid",
+    "clearingPrice",
+    "unitsSold",
+    "proceeds",
+  ] as const) {
+    if (expected[field] !== actual[field]) {
+      mismatches.push(`${field}: expected ${expected[field]}, got ${actual[field]}`);
+    }
+  }
+
+  const bidders = new Set(
+    [...expected.allocations, ...actual.allocations].map(({ bidder }) => getAddress(bidder))
+  );
+  for (const bidder of bidders) {
+    const want = expected.allocations.find((allocation) => getAddress(allocation.bidder) === bidder);
+    const got = actual.allocations.find((allocation) => getAddress(allocation.bidder) === bidder);
+    const wantUnits = want?.units ?? 0n;
+    const gotUnits = got?.units ?? 0n;
+    const wantPayment = want?.payment ?? 0n;
+    const gotPayment = got?.payment ?? 0n;
+    if (wantUnits !== gotUnits || wantPayment !== gotPayment) {
+      mismatches.push(
+        `${bidder}: expected ${wantUnits} units for ${wantPayment}, got ${gotUnits} units for ${gotPayment}`
+      );
+    }
+  }
+  return mismatches;
+}
+
+/**
+ * Lists the bidders who lost units to an equal price: each bid that was not
+ * filled in full while another bid at its price won units.
+ */
+export function findTieLosses(
+  bids: readonly RevealedBid[],
+  result: AllocationResult
+): TieLoss[] {
+  const unitsOf = (bidder: Address) =>
+    result.allocations.find((allocation) => getAddress(allocation.bidder) === getAddress(bidder))
+      ?.units ?? 0n;
+
+  const losses: TieLoss[] = [];
+  for (const bid of bids) {
+    if (bid.price === 0n || unitsOf(bid.bidder) >= bid.quantity) continue;
+    const beatenBy = bids
+      .filter(
+        (other) =>
+          other.price === bid.price &&
+          getAddress(other.bidder) !== getAddress(bid.bidder) &&
+          unitsOf(other.bidder) > 0n
+      )
+      .map((other) => getAddress(other.bidder));
+    if (beatenBy.length > 0) {
+      losses.push({ bidder: getAddress(bid.bidder), price: bid.price, beatenBy });
+    }
+  }
+  return losses;
+}
+
+/** One line explaining a lost tie, e.g. for a finalize report. */
+export function describeTieLoss(
+  loss: TieLoss,
+  policy: TieBreak,
+  formatPrice: (price: bigint) => string
+): string {
+  return (
+    `${loss.bidder} lost a tie at ${formatPrice(loss.price)} to ${loss.beatenBy.join(", ")}, ` +
+    `who ${TIE_BREAK_REASONS[policy]} (tie-break: ${policy})`
+  );
+}
+
+/**
+ * Recomputes a finalized auction's allocation from its revealed bids and
+ * compares it with what the contract recorded.
+ */
+export async function checkAllocation(client: AuctionClient): Promise<{
+  bids: RevealedBid[];
+  expected: AllocationResult;
+  actual: AllocationResult;
+  mismatches: string[];
+}> {
+  const [bids, units, pricing, reserve, actual] = await Promise.all([
+    client.getRevealedBids(),
+    client.getUnits(),
+    client.getPricingMode(),
+    client.getReserve(),
+    client.getAllocation(),
+  ]);
+  const expected = computeAllocation(bids, {
+    units,
+    pricing,
+    reservePrice: reserve.price,
+    reserveHidden: reserve.hidden,
+  });
+  return { bids, expected, actual, mismatches: compareAllocation(expected, actual) };
+}
@@ -0,0 +1,128 @@
+import fs from "fs";
+import path from "path";
+import { getAddress, isAddress } from "viem";
+import type { Address } from "viem";
+import type { PublicClient } from "@nomicfoundation/hardhat-viem/types";
+
+/** Ignition future id of the auction in ignition/modules/SealedBidAuction.ts. */
+export const AUCTION_FUTURE_ID = "SealedBidAuction#SealedBidAuction";
+
+/** Ignition future id of the auction in ignition/modules/SealedBidAuctionERC20.ts. */
+export const ERC20_AUCTION_FUTURE_ID = "SealedBidAuctionERC20#SealedBidAuctionERC20";
+
+/** Ignition future id of the factory in ignition/modules/AuctionFactory.ts. */
+export const FACTORY_FUTURE_ID = "AuctionFactory#AuctionFactory";
+
+/** Future ids checked in a deployment, in order of precedence. */
+const AUCTION_FUTURE_IDS = [AUCTION_FUTURE_ID, ERC20_AUCTION_FUTURE_ID];
+
+export const DEPLOYMENTS_DIR = path.join(process.cwd(), "ignition", "deployments");
+
+export interface ResolveAddressOptions {
+  /** Explicit address, e.g. from a --address flag. Takes precedence. */
+  address?: string;
+  /** Ignition deployments directory. Defaults to ./ignition/deployments. */
+  deploymentsDir?: string;
+  /** Ignition deployment id. Defaults to chain-<chainId>. */
+  deploymentId?: string;
+}
+
+export class AuctionAddressNotFoundError extends Error {
+  readonly chainId: number;
+
+  constructor(chainId: number, addressesFile: string) {
+    super(
+      `No SealedBidAuction deployment found for chain ${chainId} ` +
+        `(looked for ${AUCTION_FUTURE_IDS.map((id) => `"${id}"`).join(" or ")} in ${addressesFile}). ` +
+        `Deploy with "npx hardhat auction deploy", or pass --address or AUCTION_ADDRESS.`
+    );
+    this.name = "AuctionAddressNotFoundError";
+    this.chainId = chainId;
+  }
+}
+
+export class FactoryAddressNotFoundError extends Error {
+  readonly chainId: number;
+
+  constructor(chainId: number, addressesFile: string) {
+    super(
+      `No AuctionFactory deployment found for chain ${chainId} ` +
+        `(looked for "${FACTORY_FUTURE_ID}" in ${addressesFile}). ` +
+        `Deploy it with "npx hardhat ignition deploy ignition/modules/AuctionFactory.ts", ` +
+        `or pass --factory or AUCTION_FACTORY_ADDRESS.`
+    );
+    this.name = "FactoryAddressNotFoundError";
+    this.chainId = chainId;
+  }
+}
+
+/**
+ * Resolves the auction address to talk to, in order of precedence:
+ *   1. `options.address` (a --address flag)
+ *   2. the AUCTION_ADDRESS environment variable
+ *   3. the Ignition deployment for the connected chain
+ */
+export async function resolveAuctionAddress(
+  publicClient: PublicClient,
+  options: ResolveAddressOptions = {}
+): Promise<Address> {
+  const override = options.address || process.env.AUCTION_ADDRESS;
+  if (override) {
+    if (!isAddress(override)) {
+      throw new Error(`Invalid auction address: ${override}`);
+    }
+    return getAddress(override);
+  }
+
+  const chainId = await publicClient.getChainId();
+  const { addressesFile, deployed } = readDeployment(chainId, options);
+  const address = AUCTION_FUTURE_IDS.map((id) => deployed?.[id]).find(
+    (candidate) => candidate !== undefined
+  );
+  if (address === undefined || !isAddress(address)) {
+    throw new AuctionAddressNotFoundError(chainId, addressesFile);
+  }
+  return getAddress(address);
+}
+
+/**
+ * Resolves the AuctionFactory address like resolveAuctionAddress(), with
+ * AUCTION_FACTORY_ADDRESS as the environment variable.
+ */
+export async function resolveFactoryAddress(
+  publicClient: PublicClient,
+  options: ResolveAddressOptions = {}
+): Promise<Address> {
+  const override = options.address || process.env.AUCTION_FACTORY_ADDRESS;
+  if (override) {
+    if (!isAddress(override)) {
+      throw new Error(`Invalid factory address: ${override}`);
+    }
+    return getAddress(override);
+  }
+
+  const chainId = await publicClient.getChainId();
+  const { addressesFile, deployed } = readDeployment(chainId, options);
+  const address = deployed?.[FACTORY_FUTURE_ID];
+  if (address === undefined || !isAddress(address)) {
+    throw new FactoryAddressNotFoundError(chainId, addressesFile);
+  }
+  return getAddress(address);
+}
+
+/** Reads deployed_addresses.json of the chain's Ignition deployment, if any. */
+function readDeployment(
+  chainId: number,
+  options: ResolveAddressOptions
+): { addressesFile: string; deployed: Record<string, string> | undefined } {
+  const deploymentId = options.deploymentId ?? `chain-${chainId}`;
+  const addressesFile = path.join(
+    options.deploymentsDir ?? DEPLOYMENTS_DIR,
+    deploymentId,
+    "deployed_addresses.json"
+  );
+  if (!fs.existsSync(addressesFile)) {
+    return { addressesFile, deployed: undefined };
+  }
+  return { addressesFile, deployed: JSON.parse(fs.readFileSync(addressesFile, "utf-8")) };
+}
@@ -0,0 +1,928 @@
+import {
+  BaseError,
+  erc20Abi,
+  getAddress,
+  getContract,
+  parseEventLogs,
+  zeroAddress,
+  zeroHash,
+} from "viem";
+import type {
+  Account,
+  Address,
+  GetContractReturnType,
+  Hex,
+  TransactionReceipt,
+} from "viem";
+import type {
+  ContractReturnType,
+  HardhatViemHelpers,
+  PublicClient,
+  WalletClient,
+} from "@nomicfoundation/hardhat-viem/types";
+import type { AllocationResult, RevealedBid } from "./allocation.js";
+import {
+  generateCommitment,
+  generateMultiUnitCommitment,
+  verifyCommitment,
+} from "./commit-reveal-utils.js";
+import { AuctionError, NoBidToRefundError, decodeAuctionError } from "./auction-errors.js";
+import { formatAmount, loadPaymentAsset } from "./payment-asset.js";
+import type { PaymentAsset } from "./payment-asset.js";
+
+/** Functions shared by the ETH and ERC-20 auctions. */
+export type AuctionContract = ContractReturnType<"SealedBidAuctionBase">;
+
+export type Erc20Contract = GetContractReturnType<
+  typeof erc20Abi,
+  { public: PublicClient; wallet: WalletClient }
+>;
+
+/**
+ * The variant-specific side of an auction: how commitBid() takes the deposit.
+ */
+export type AuctionPayment =
+  | { kind: "eth"; contract: ContractReturnType<"SealedBidAuction"> }
+  | {
+      kind: "erc20";
+      contract: ContractReturnType<"SealedBidAuctionERC20">;
+      token: Erc20Contract;
+    };
+
+export const AUCTION_PHASES = ["commit", "reveal", "ended", "finalized", "cancelled"] as const;
+
+export type AuctionPhase = (typeof AUCTION_PHASES)[number];
+
+export interface AuctionTimeline {
+  now: bigint;
+  commitEndTime: bigint;
+  revealEndTime: bigint;
+}
+
+/** Nonce, gas and EIP-1559 fees for a transaction, instead of the wallet's defaults. */
+export interface TransactionOverrides {
+  nonce?: number;
+  gas?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+}
+
+export interface CommitResult {
+  commitment: Hex;
+  deposit: bigint;
+  /** The token approval sent before the commit, if one was needed. */
+  approval?: TransactionReceipt;
+  receipt: TransactionReceipt;
+}
+
+/** Reserve price as known on-chain; `price` is 0 while the reserve is hidden. */
+export interface AuctionReserve {
+  price: bigint;
+  hidden: boolean;
+}
+
+/** Reserve as shown to users, e.g. `5 ETH`, `hidden` or `none`. */
+export function describeReserve(reserve: AuctionReserve, asset: PaymentAsset): string {
+  if (reserve.hidden) {
+    return "hidden";
+  }
+  return reserve.price === 0n ? "none" : formatAmount(reserve.price, asset);
+}
+
+/**
+ * Pricing modes, indexed by SealedBidAuctionBase.PricingMode. With several
+ * units, first-price is pay-as-bid and uniform charges every winner the
+ * lowest accepted price.
+ */
+export const PRICING_MODES = ["first-price", "second-price", "uniform"] as const;
+
+export type PricingMode = (typeof PRICING_MODES)[number];
+
+/**
+ * Tie-break policies, indexed by SealedBidAuctionBase.TieBreak: who wins
+ * between equal prices.
+ */
+export const TIE_BREAKS = ["earliest-commit", "earliest-reveal", "random"] as const;
+
+export type TieBreak = (typeof TIE_BREAKS)[number];
+
+/**
+ * Where a bidder stands, indexed by SealedBidAuctionBase.BidderState. A bid
+ * of zero is still "revealed"; a winner stays "won" after their refund.
+ */
+export const BIDDER_STATES = ["none", "committed", "revealed", "refunded", "won"] as const;
+
+export type BidderState = (typeof BIDDER_STATES)[number];
+
+/** Soft-close rule in seconds; see SealedBidAuctionBase.setSoftClose(). */
+export interface SoftClose {
+  /** A commit this close to the end of the commit phase extends it. */
+  window: bigint;
+  /** Seconds each such commit adds to both phases. */
+  extension: bigint;
+  /** Most seconds the phases can be extended by in all. */
+  cap: bigint;
+}
+
+/** Kinds of lot, indexed by SealedBidAuctionBase.LotKind. */
+export const LOT_KINDS = [null, "ERC721", "ERC1155"] as const;
+
+export type LotKind = NonNullable<(typeof LOT_KINDS)[number]>;
+
+/** NFT escrowed by the seller and sold by the auction. */
+export interface AuctionLot {
+  kind: LotKind;
+  token: Address;
+  id: bigint;
+  amount: bigint;
+  /** Winner, or the owner when nothing was revealed; null until finalized. */
+  recipient: Address | null;
+  delivered: boolean;
+}
+
+/**
+ * Phase of an auction at `timeline.now`. Boundaries follow the contract
+ * modifiers: commits are accepted up to and including commitEndTime, and
+ * reveals up to and including revealEndTime. A cancelled auction stays
+ * "cancelled" whatever the time.
+ */
+export function phaseAt(
+  timeline: AuctionTimeline,
+  finalized: boolean,
+  cancelled = false
+): AuctionPhase {
+  if (cancelled) return "cancelled";
+  if (finalized) return "finalized";
+  if (timeline.now <= timeline.commitEndTime) return "commit";
+  if (timeline.now <= timeline.revealEndTime) return "reveal";
+  return "ended";
+}
+
+/** One-line description of a lot, e.g. `1 x ERC721 0x... #7`. */
+export function describeLot(lot: Pick<AuctionLot, "kind" | "token" | "id" | "amount">): string {
+  return `${lot.amount} x ${lot.kind} ${lot.token} #${lot.id}`;
+}
+
+/** Where the lot stands: held in escrow, delivered, or waiting for claimLot(). */
+export function describeLotOutcome(lot: AuctionLot): string {
+  if (lot.recipient === null) {
+    return "held in escrow until finalization";
+  }
+  return lot.delivered
+    ? `delivered to ${lot.recipient}`
+    : `waiting for ${lot.recipient} to claim it with claimLot()`;
+}
+
+/** Payment asset paid out by a refund or a proceeds withdrawal. */
+export interface PayoutResult {
+  amount: bigint;
+  receipt: TransactionReceipt;
+}
+
+/**
+ * What claimRefundIfDue() did for a bidder: sent the refund, found it
+ * already claimed, or found nothing to claim (no bid, or a winner whose
+ * deposit went entirely to the payment).
+ */
+export interface RefundOutcome {
+  bidder: Address;
+  status: "refunded" | "already-refunded" | "nothing-due";
+  amount: bigint;
+  receipt: TransactionReceipt | null;
+}
+
+/**
+ * Whether a reveal would go through, as found by checkReveal() without
+ * sending anything. `detail` explains any status other than "ok".
+ */
+export interface RevealCheck {
+  bidder: Address;
+  status: "ok" | "mismatch" | "already-revealed" | "wrong-phase" | "no-commitment" | "reverts";
+  detail?: string;
+}
+
+/** A committer who did not reveal. */
+export interface NonRevealer {
+  bidder: Address;
+  /** Deposit still held, which slashNonRevealers() would forfeit. */
+  deposit: bigint;
+  /** Deposit already forfeited. */
+  forfeited: bigint;
+}
+
+export interface SlashResult {
+  slashed: { bidder: Address; amount: bigint; bounty: bigint }[];
+  receipt: TransactionReceipt;
+}
+
+/**
+ * Thin wrapper around a deployed SealedBidAuction or SealedBidAuctionERC20.
+ * Every write is simulated first so that contract reverts surface as typed
+ * AuctionError subclasses instead of raw RPC errors.
+ */
+export class AuctionClient {
+  readonly contract: AuctionContract;
+  readonly publicClient: PublicClient;
+  readonly asset: PaymentAsset;
+  private readonly payment: AuctionPayment;
+
+  constructor(
+    contract: AuctionContract,
+    publicClient: PublicClient,
+    asset: PaymentAsset,
+    payment: AuctionPayment
+  ) {
+    this.contract = contract;
+    this.publicClient = publicClient;
+    this.asset = asset;
+    this.payment = payment;
+  }
+
+  /**
+   * Connects to the auction at `address`, reading its payment token to pick
+   * the ETH or ERC-20 variant.
+   */
+  static async connect(
+    viem: HardhatViemHelpers,
+    address: Address
+  ): Promise<AuctionClient> {
+    const [contract, publicClient] = await Promise.all([
+      viem.getContractAt("SealedBidAuctionBase", address),
+      viem.getPublicClient(),
+    ]);
+    const asset = await loadPaymentAsset(publicClient, await contract.read.paymentToken());
+
+    let payment: AuctionPayment;
+    if (asset.token === null) {
+      payment = {
+        kind: "eth",
+        contract: await viem.getContractAt("SealedBidAuction", address),
+      };
+    } else {
+      const [walletClient] = await viem.getWalletClients();
+      payment = {
+        kind: "erc20",
+        contract: await viem.getContractAt("SealedBidAuctionERC20", address),
+        token: getContract({
+          address: asset.token,
+          abi: erc20Abi,
+          client: { public: publicClient, wallet: walletClient },
+        }),
+      };
+    }
+    return new AuctionClient(contract, publicClient, asset, payment);
+  }
+
+  get address(): Address {
+    return this.contract.address;
+  }
+
+  /**
+   * Current phase ends, read from the contract each time: a soft close
+   * moves them while bids come in.
+   */
+  async getTimeline(): Promise<AuctionTimeline> {
+    const [commitEndTime, revealEndTime, block] = await Promise.all([
+      this.contract.read.commitEndTime(),
+      this.contract.read.revealEndTime(),
+      this.publicClient.getBlock(),
+    ]);
+    return { now: block.timestamp, commitEndTime, revealEndTime };
+  }
+
+  /** Phase as seen by the latest block; see phaseAt(). */
+  async getPhase(): Promise<AuctionPhase> {
+    const [timeline, finalized, cancelled] = await Promise.all([
+      this.getTimeline(),
+      this.contract.read.finalized(),
+      this.contract.read.cancelled(),
+    ]);
+    return phaseAt(timeline, finalized, cancelled);
+  }
+
+  /** Whether the owner has paused commits, reveals, finalization and slashing. */
+  async isPaused(): Promise<boolean> {
+    return this.contract.read.paused();
+  }
+
+  /** Stops commits, reveals, finalization and slashing until unpause(). Only the owner can. */
+  async pause(account: Account | Address): Promise<TransactionReceipt> {
+    return this.send(async () => {
+      await this.contract.simulate.pause({ account: addressOf(account) });
+      return this.contract.write.pause({ account });
+    });
+  }
+
+  async unpause(account: Account | Address): Promise<TransactionReceipt> {
+    return this.send(async () => {
+      await this.contract.simulate.unpause({ account: addressOf(account) });
+      return this.contract.write.unpause({ account });
+    });
+  }
+
+  /**
+   * Calls the auction off before finalization; every deposit becomes
+   * refundable and any lot returns to the owner. Only the owner can.
+   */
+  async cancel(account: Account | Address): Promise<TransactionReceipt> {
+    return this.send(async () => {
+      await this.contract.simulate.cancelAuction({ account: addressOf(account) });
+      return this.contract.write.cancelAuction({ account });
+    });
+  }
+
+  async getBidders(): Promise<readonly Address[]> {
+    return this.contract.read.getAllBidders();
+  }
+
+  async getBidderState(bidder: Address): Promise<BidderState> {
+    return BIDDER_STATES[await this.contract.read.getBidderState([bidder])];
+  }
+
+  /** Every bidder with their state, in commit order. */
+  async getBidderStates(): Promise<{ bidder: Address; state: BidderState }[]> {
+    const bidders = await this.getBidders();
+    return Promise.all(
+      bidders.map(async (bidder) => ({ bidder, state: await this.getBidderState(bidder) }))
+    );
+  }
+
+  async getDeposit(bidder: Address): Promise<bigint> {
+    return this.contract.read.getDeposit([bidder]);
+  }
+
+  async getPricingMode(): Promise<PricingMode> {
+    return PRICING_MODES[await this.contract.read.pricingMode()];
+  }
+
+  /** Sets what the winner pays. Only the owner can, and only before the first commit. */
+  async setPricingMode(
+    account: Account | Address,
+    mode: PricingMode
+  ): Promise<TransactionReceipt> {
+    const index = PRICING_MODES.indexOf(mode);
+    return this.send(async () => {
+      await this.contract.simulate.setPricingMode([index], { account: addressOf(account) });
+      return this.contract.write.setPricingMode([index], { account });
+    });
+  }
+
+  async getTieBreak(): Promise<TieBreak> {
+    return TIE_BREAKS[await this.contract.read.tieBreak()];
+  }
+
+  /** Sets who wins between equal prices. Only the owner can, and only before the first commit. */
+  async setTieBreak(account: Account | Address, policy: TieBreak): Promise<TransactionReceipt> {
+    const index = TIE_BREAKS.indexOf(policy);
+    return this.send(async () => {
+      await this.contract.simulate.setTieBreak([index], { account: addressOf(account) });
+      return this.contract.write.setTieBreak([index], { account });
+    });
+  }
+
+  async getUnits(): Promise<bigint> {
+    return this.contract.read.units();
+  }
+
+  /** Sells `units` identical units. Only the owner can, and only before the first commit. */
+  async setUnits(account: Account | Address, units: bigint): Promise<TransactionReceipt> {
+    return this.send(async () => {
+      await this.contract.simulate.setUnits([units], { account: addressOf(account) });
+      return this.contract.write.setUnits([units], { account });
+    });
+  }
+
+  /**
+   * Revealed bids in commit order, with their tie-break keys; bidders who
+   * have not revealed, or revealed zero, are left out.
+   */
+  async getRevealedBids(): Promise<RevealedBid[]> {
+    const bidders = await this.getBidders();
+    const bids = await Promise.all(
+      bidders.map(async (bidder) => {
+        const [price, quantity, tieKey] = await Promise.all([
+          this.contract.read.getRevealedBid([bidder]),
+          this.contract.read.getRevealedQuantity([bidder]),
+          this.contract.read.getTieBreakKey([bidder]),
+        ]);
+        return { bidder, price, quantity, tieKey };
+      })
+    );
+    return bids.filter((bid) => bid.price > 0n);
+  }
+
+  /**
+   * The revealed bid finalizeAuction() would rank first so far: the highest
+   * price, then the lower tie-break key. Null until a non-zero reveal.
+   */
+  async getLeader(): Promise<RevealedBid | null> {
+    const bids = await this.getRevealedBids();
+    return bids.reduce<RevealedBid | null>(
+      (leader, bid) =>
+        leader === null ||
+        bid.price > leader.price ||
+        (bid.price === leader.price && (bid.tieKey ?? 0n) < (leader.tieKey ?? 0n))
+          ? bid
+          : leader,
+      null
+    );
+  }
+
+  /**
+   * The allocation recorded by finalizeAuction(), winners in commit order;
+   * all zero before that. `proceeds` is what the winners were charged, even
+   * after the owner has withdrawn it.
+   */
+  async getAllocation(): Promise<AllocationResult> {
+    const bidders = await this.getBidders();
+    const [allocations, highestBid, secondHighestBid, clearingPrice, unitsSold] =
+      await Promise.all([
+        Promise.all(
+          bidders.map(async (bidder) => {
+            const [units, payment] = await Promise.all([
+              this.contract.read.getAllocation([bidder]),
+              this.contract.read.getPayment([bidder]),
+            ]);
+            return { bidder, units, payment };
+          })
+        ),
+        this.contract.read.highestBid(),
+        this.contract.read.secondHighestBid(),
+        this.contract.read.clearingPrice(),
+        this.contract.read.unitsSold(),
+      ]);
+    const won = allocations.filter((allocation) => allocation.units > 0n);
+    return {
+      allocations: won,
+      highestBid,
+      secondHighestBid,
+      clearingPrice,
+      unitsSold,
+      proceeds: won.reduce((sum, allocation) => sum + allocation.payment, 0n),
+    };
+  }
+
+  async getReserve(): Promise<AuctionReserve> {
+    const [price, commitment, revealed] = await Promise.all([
+      this.contract.read.reservePrice(),
+      this.contract.read.reserveCommitment(),
+      this.contract.read.reserveRevealed(),
+    ]);
+    return { price, hidden: commitment !== zeroHash && !revealed };
+  }
+
+  /** Sets a public reserve price. Only the owner can, and only before the first commit. */
+  async setReservePrice(account: Account | Address, price: bigint): Promise<TransactionReceipt> {
+    return this.send(async () => {
+      await this.contract.simulate.setReservePrice([price], { account: addressOf(account) });
+      return this.contract.write.setReservePrice([price], { account });
+    });
+  }
+
+  /**
+   * Commits to a hidden reserve price, bound to the owner like a bid. Keep
+   * the secret: the reserve must be revealed with revealReserve() or the
+   * auction ends unsold.
+   */
+  async commitReservePrice(
+    account: Account | Address,
+    price: bigint,
+    secret: string
+  ): Promise<{ commitment: Hex; receipt: TransactionReceipt }> {
+    const commitment = generateCommitment(price, secret, {
+      chainId: await this.publicClient.getChainId(),
+      auction: this.address,
+      bidder: addressOf(account),
+    });
+    const receipt = await this.send(async () => {
+      await this.contract.simulate.commitReservePrice([commitment], {
+        account: addressOf(account),
+      });
+      return this.contract.write.commitReservePrice([commitment], { account });
+    });
+    return { commitment, receipt };
+  }
+
+  async revealReserve(
+    account: Account | Address,
+    price: bigint,
+    secret: string
+  ): Promise<TransactionReceipt> {
+    return this.send(async () => {
+      await this.contract.simulate.revealReserve([price, secret], { account: addressOf(account) });
+      return this.contract.write.revealReserve([price, secret], { account });
+    });
+  }
+
+  /** The escrowed lot, or null if the auction sells nothing on-chain. */
+  async getLot(): Promise<AuctionLot | null> {
+    const [[kind, token, id, amount], recipient, delivered] = await Promise.all([
+      this.contract.read.lot(),
+      this.contract.read.lotRecipient(),
+      this.contract.read.lotDelivered(),
+    ]);
+    const lotKind = LOT_KINDS[kind];
+    if (lotKind === null || lotKind === undefined) {
+      return null;
+    }
+    return {
+      kind: lotKind,
+      token,
+      id,
+      amount,
+      recipient: recipient === zeroAddress ? null : recipient,
+      delivered,
+    };
+  }
+
+  /** Payment asset currently held by the auction: deposits plus proceeds. */
+  async getEscrowed(): Promise<bigint> {
+    if (this.payment.kind === "eth") {
+      return this.publicClient.getBalance({ address: this.address });
+    }
+    return this.payment.token.read.balanceOf([this.address]);
+  }
+
+  /**
+   * Commits a bid and escrows `deposit` base units of the payment asset with
+   * it. The deposit defaults to the bid itself, which reveals the amount to
+   * anyone watching; pass a larger, rounder deposit to mask it.
+   *
+   * For an ERC-20 auction the auction is first approved for the deposit,
+   * unless the bidder's allowance already covers it.
+   *
+   * In a multi-unit auction `bidAmount` is the price per unit and `quantity`
+   * the number of units wanted; the default deposit covers all of them.
+   */
+  async commit(
+    account: Account | Address,
+    bidAmount: bigint,
+    secret: string,
+    deposit?: bigint,
+    quantity: bigint = 1n
+  ): Promise<CommitResult> {
+    deposit ??= bidAmount * quantity;
+    const commitment = await this.commitmentFor(account, bidAmount, secret, quantity);
+
+    const payment = this.payment;
+    if (payment.kind === "eth") {
+      const receipt = await this.send(async () => {
+        await payment.contract.simulate.commitBid([commitment], {
+          account: addressOf(account),
+          value: deposit,
+        });
+        return payment.contract.write.commitBid([commitment], { account, value: deposit });
+      });
+      return { commitment, deposit, receipt };
+    }
+
+    const approval = await this.approve(payment.token, account, deposit);
+    const receipt = await this.send(async () => {
+      await payment.contract.simulate.commitBid([commitment, deposit], {
+        account: addressOf(account),
+      });
+      return payment.contract.write.commitBid([commitment, deposit], { account });
+    });
+    return { commitment, deposit, approval, receipt };
+  }
+
+  /** The commitment commit() sends for this bid, computed without sending anything. */
+  async commitmentFor(
+    account: Account | Address,
+    bidAmount: bigint,
+    secret: string,
+    quantity: bigint = 1n
+  ): Promise<Hex> {
+    const context = {
+      chainId: await this.publicClient.getChainId(),
+      auction: this.address,
+      bidder: addressOf(account),
+    };
+    return quantity === 1n
+      ? generateCommitment(bidAmount, secret, context)
+      : generateMultiUnitCommitment(bidAmount, quantity, secret, context);
+  }
+
+  /**
+   * Checks a reveal before paying gas for it: the bidder's on-chain
+   * commitment and state, the bid against the commitment, the phase, and
+   * finally a simulation of the reveal itself.
+   */
+  async checkReveal(
+    account: Account | Address,
+    bidAmount: bigint,
+    secret: string,
+    quantity: bigint = 1n
+  ): Promise<RevealCheck> {
+    const bidder = getAddress(addressOf(account));
+    const [commitment, revealed, phase, paused, chainId] = await Promise.all([
+      this.contract.read.getCommitment([bidder]),
+      this.contract.read.hasRevealed([bidder]),
+      this.getPhase(),
+      this.isPaused(),
+      this.publicClient.getChainId(),
+    ]);
+
+    if (revealed) {
+      return { bidder, status: "already-revealed" };
+    }
+    if (commitment === zeroHash) {
+      return { bidder, status: "no-commitment", detail: "no bid was committed from this address" };
+    }
+    const context = { chainId, auction: this.address, bidder };
+    if (!verifyCommitment(bidAmount, secret, commitment, context, quantity)) {
+      return {
+        bidder,
+        status: "mismatch",
+        detail: "the amount, quantity or secret does not match the commitment",
+      };
+    }
+    if (phase !== "reveal" || paused) {
+      return {
+        bidder,
+        status: "wrong-phase",
+        detail: paused ? "the auction is paused" : `the auction is in the ${phase} phase`,
+      };
+    }
+
+    try {
+      if (quantity === 1n) {
+        await this.contract.simulate.revealBid([bidAmount, secret], { account: bidder });
+      } else {
+        await this.contract.simulate.revealMultiUnitBid([bidAmount, quantity, secret], {
+          account: bidder,
+        });
+      }
+    } catch (error) {
+      const decoded = decodeAuctionError(error, this.payment.contract.abi);
+      return {
+        bidder,
+        status: "reverts",
+        detail:
+          decoded instanceof AuctionError
+            ? decoded.errorName
+            : decoded instanceof BaseError
+              ? decoded.shortMessage
+              : String(decoded),
+      };
+    }
+    return { bidder, status: "ok" };
+  }
+
+  /** Reveals a bid made with commit(), with the same `quantity`. */
+  async reveal(
+    account: Account | Address,
+    bidAmount: bigint,
+    secret: string,
+    quantity: bigint = 1n
+  ): Promise<TransactionReceipt> {
+    return this.wait(await this.submitReveal(account, bidAmount, secret, quantity));
+  }
+
+  /**
+   * Sends the reveal without waiting for it to be mined, for callers that
+   * manage nonces and fees themselves, e.g. to replace a stuck transaction.
+   * The simulation runs against the latest block, not the pending one that
+   * Hardhat uses with automine off, where the transaction being replaced
+   * would make it revert. A replacement should pass the original's `gas`
+   * for the same reason.
+   */
+  async submitReveal(
+    account: Account | Address,
+    bidAmount: bigint,
+    secret: string,
+    quantity: bigint = 1n,
+    overrides: TransactionOverrides = {}
+  ): Promise<Hex> {
+    if (quantity !== 1n) {
+      return this.submit(async () => {
+        await this.contract.simulate.revealMultiUnitBid([bidAmount, quantity, secret], {
+          account: addressOf(account),
+          blockTag: "latest",
+        });
+        return this.contract.write.revealMultiUnitBid([bidAmount, quantity, secret], {
+          account,
+          ...overrides,
+        });
+      });
+    }
+    return this.submit(async () => {
+      await this.contract.simulate.revealBid([bidAmount, secret], {
+        account: addressOf(account),
+        blockTag: "latest",
+      });
+      return this.contract.write.revealBid([bidAmount, secret], { account, ...overrides });
+    });
+  }
+
+  async finalize(account: Account | Address): Promise<TransactionReceipt> {
+    return this.wait(await this.submitFinalize(account));
+  }
+
+  /** Sends finalizeAuction() without waiting for it; see submitReveal(). */
+  async submitFinalize(
+    account: Account | Address,
+    overrides: TransactionOverrides = {}
+  ): Promise<Hex> {
+    return this.submit(async () => {
+      await this.contract.simulate.finalizeAuction({
+        account: addressOf(account),
+        blockTag: "latest",
+      });
+      return this.contract.write.finalizeAuction({ account, ...overrides });
+    });
+  }
+
+  /**
+   * Waits for a transaction sent with one of the submit methods. With a
+   * `timeout` in milliseconds, throws WaitForTransactionReceiptTimeoutError
+   * if it is not mined by then.
+   */
+  async wait(hash: Hex, timeout?: number): Promise<TransactionReceipt> {
+    return this.publicClient.waitForTransactionReceipt({ hash, timeout });
+  }
+
+  async claimRefund(account: Account | Address): Promise<PayoutResult> {
+    const receipt = await this.send(async () => {
+      await this.contract.simulate.claimRefund({ account: addressOf(account) });
+      return this.contract.write.claimRefund({ account });
+    });
+    const [refunded] = parseEventLogs({
+      abi: this.contract.abi,
+      logs: receipt.logs,
+      eventName: "BidRefunded",
+    });
+    return { amount: refunded.args.amount, receipt };
+  }
+
+  /**
+   * Claims the bidder's refund unless it was already claimed or nothing is
+   * left, so a batch of refunds can be re-run after a failure without
+   * reverting on the bidders it already paid. Other failures still throw,
+   * e.g. AuctionNotFinalizedError or BidNotRevealedError.
+   */
+  async claimRefundIfDue(account: Account | Address): Promise<RefundOutcome> {
+    const bidder = getAddress(addressOf(account));
+    const [state, deposit] = await Promise.all([
+      this.getBidderState(bidder),
+      this.getDeposit(bidder),
+    ]);
+    if (deposit === 0n) {
+      // A winner stays "won" after claiming the excess, so look for the
+      // refund itself: none means the deposit was exactly the payment.
+      const refunded =
+        state === "refunded" ||
+        (state === "won" &&
+          (await this.contract.getEvents.BidRefunded({ bidder }, { fromBlock: 0n })).length > 0);
+      const status = refunded ? "already-refunded" : "nothing-due";
+      return { bidder, status, amount: 0n, receipt: null };
+    }
+
+    try {
+      const { amount, receipt } = await this.claimRefund(account);
+      return { bidder, status: "refunded", amount, receipt };
+    } catch (error) {
+      // An earlier attempt that timed out may have landed after the read.
+      if (error instanceof NoBidToRefundError) {
+        return { bidder, status: "already-refunded", amount: 0n, receipt: null };
+      }
+      throw error;
+    }
+  }
+
+  /** The soft-close rule and the seconds it has added so far, or null when off. */
+  async getSoftClose(): Promise<(SoftClose & { extended: bigint }) | null> {
+    const [window, extension, cap, extended] = await Promise.all([
+      this.contract.read.softCloseWindow(),
+      this.contract.read.softCloseExtension(),
+      this.contract.read.softCloseCap(),
+      this.contract.read.commitExtension(),
+    ]);
+    return window === 0n ? null : { window, extension, cap, extended };
+  }
+
+  /** Turns on the soft close. Only the owner can, and only before the first commit. */
+  async setSoftClose(account: Account | Address, rule: SoftClose): Promise<TransactionReceipt> {
+    const args = [rule.window, rule.extension, rule.cap] as const;
+    return this.send(async () => {
+      await this.contract.simulate.setSoftClose(args, { account: addressOf(account) });
+      return this.contract.write.setSoftClose(args, { account });
+    });
+  }
+
+  async getSlashBounty(): Promise<bigint> {
+    return this.contract.read.slashBounty();
+  }
+
+  /**
+   * Sets the share of a slashed deposit, in basis points, paid to whoever
+   * slashes it. Only the owner can, and only before the first commit.
+   */
+  async setSlashBounty(account: Account | Address, bountyBps: bigint): Promise<TransactionReceipt> {
+    return this.send(async () => {
+      await this.contract.simulate.setSlashBounty([bountyBps], { account: addressOf(account) });
+      return this.contract.write.setSlashBounty([bountyBps], { account });
+    });
+  }
+
+  /** Committers who have not revealed, in commit order, with what they stand to lose or lost. */
+  async getNonRevealers(): Promise<NonRevealer[]> {
+    const silent = (await this.getBidderStates()).filter(({ state }) => state === "committed");
+    return Promise.all(
+      silent.map(async ({ bidder }) => {
+        const [deposit, forfeited] = await Promise.all([
+          this.contract.read.getDeposit([bidder]),
+          this.contract.read.getForfeited([bidder]),
+        ]);
+        return { bidder, deposit, forfeited };
+      })
+    );
+  }
+
+  /**
+   * Forfeits the deposits of non-revealers once the reveal phase is over;
+   * by default every one whose deposit is still held. The caller receives
+   * the slash bounty.
+   */
+  async slashNonRevealers(account: Account | Address, bidders?: Address[]): Promise<SlashResult> {
+    const targets =
+      bidders ??
+      (await this.getNonRevealers())
+        .filter((nonRevealer) => nonRevealer.deposit > 0n)
+        .map((nonRevealer) => nonRevealer.bidder);
+    const receipt = await this.send(async () => {
+      await this.contract.simulate.slashNonRevealers([targets], { account: addressOf(account) });
+      return this.contract.write.slashNonRevealers([targets], { account });
+    });
+    const slashed = parseEventLogs({
+      abi: this.contract.abi,
+      logs: receipt.logs,
+      eventName: "NonRevealSlashed",
+    }).map((log) => ({
+      bidder: getAddress(log.args.bidder),
+      amount: log.args.amount,
+      bounty: log.args.bounty,
+    }));
+    return { slashed, receipt };
+  }
+
+  /**
+   * Collects a lot that finalization could not deliver, sending it to `to`.
+   * Only the lot recipient can call this.
+   */
+  async claimLot(account: Account | Address, to: Address): Promise<TransactionReceipt> {
+    return this.send(async () => {
+      await this.contract.simulate.claimLot([to], { account: addressOf(account) });
+      return this.contract.write.claimLot([to], { account });
+    });
+  }
+
+  /** Sends the winning amount to the owner. Only the owner can call this. */
+  async withdrawProceeds(account: Account | Address): Promise<PayoutResult> {
+    const receipt = await this.send(async () => {
+      await this.contract.simulate.withdraw({ account: addressOf(account) });
+      return this.contract.write.withdraw({ account });
+    });
+    const [withdrawn] = parseEventLogs({
+      abi: this.contract.abi,
+      logs: receipt.logs,
+      eventName: "ProceedsWithdrawn",
+    });
+    return { amount: withdrawn.args.amount, receipt };
+  }
+
+  /**
+   * Approves the auction to pull `amount` tokens from `account`, returning
+   * undefined when the current allowance is already enough.
+   */
+  private async approve(
+    token: Erc20Contract,
+    account: Account | Address,
+    amount: bigint
+  ): Promise<TransactionReceipt | undefined> {
+    const allowance = await token.read.allowance([addressOf(account), this.address]);
+    if (allowance >= amount) {
+      return undefined;
+    }
+    return this.send(async () => {
+      await token.simulate.approve([this.address, amount], { account: addressOf(account) });
+      return token.write.approve([this.address, amount], { account });
+    });
+  }
+
+  private async send(submit: () => Promise<Hex>): Promise<TransactionReceipt> {
+    return this.wait(await this.submit(submit));
+  }
+
+  private async submit(submit: () => Promise<Hex>): Promise<Hex> {
+    try {
+      return await submit();
+    } catch (error) {
+      throw decodeAuctionError(error, this.payment.contract.abi);
+    }
+  }
+}
+
+function addressOf(account: Account | Address): Address {
+  return typeof account === "string" ? account : account.address;
+}
@@ -0,0 +1,166 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  decodeErrorResult,
+  isHex,
+} from "viem";
+import type { ContractErrorName, Hex } from "viem";
+import type { ArtifactMap } from "hardhat/types/artifacts";
+
+export type AuctionAbi =
+  | ArtifactMap["SealedBidAuction"]["abi"]
+  | ArtifactMap["SealedBidAuctionERC20"]["abi"];
+
+/** Errors of either variant; the ERC-20 auction's are a superset. */
+export type AuctionErrorName = ContractErrorName<
+  ArtifactMap["SealedBidAuctionERC20"]["abi"]
+>;
+
+export class AuctionError extends Error {
+  readonly errorName: AuctionErrorName;
+  readonly args: readonly unknown[];
+
+  constructor(
+    errorName: AuctionErrorName,
+    args: readonly unknown[] = [],
+    options?: { cause?: unknown }
+  ) {
+    super(`SealedBidAuction reverted with ${errorName}()`, options);
+    this.name = new.target.name;
+    this.errorName = errorName;
+    this.args = args;
+  }
+}
+
+export class AlreadyInitializedError extends AuctionError {}
+export class AuctionAlreadyCancelledError extends AuctionError {}
+export class AuctionAlreadyFinalizedError extends AuctionError {}
+export class AuctionNotFinalizedError extends AuctionError {}
+export class BidderAlreadyCommittedError extends AuctionError {}
+export class BidderAlreadyRevealedError extends AuctionError {}
+export class BidNotRevealedError extends AuctionError {}
+export class BiddingStartedError extends AuctionError {}
+export class CommitmentMismatchError extends AuctionError {}
+export class CommitPhaseEndedError extends AuctionError {}
+export class CommitPhaseNotEndedError extends AuctionError {}
+export class InsufficientDepositError extends AuctionError {}
+export class InvalidCommitmentError extends AuctionError {}
+export class InvalidLotError extends AuctionError {}
+export class InvalidPaymentTokenError extends AuctionError {}
+export class InvalidQuantityError extends AuctionError {}
+export class InvalidSlashBountyError extends AuctionError {}
+export class InvalidSoftCloseError extends AuctionError {}
+export class InvalidUnitsError extends AuctionError {}
+export class LotAlreadyDepositedError extends AuctionError {}
+export class LotNotClaimableError extends AuctionError {}
+export class NoCommitmentFoundError extends AuctionError {}
+export class NoBidToRefundError extends AuctionError {}
+export class NoProceedsError extends AuctionError {}
+export class NothingToSlashError extends AuctionError {}
+export class ReserveAlreadyRevealedError extends AuctionError {}
+export class RevealPhaseNotActiveError extends AuctionError {}
+export class RevealPhaseNotEndedError extends AuctionError {}
+export class TransferFailedError extends AuctionError {}
+export class UnauthorizedError extends AuctionError {}
+export class EnforcedPauseError extends AuctionError {}
+export class ExpectedPauseError extends AuctionError {}
+export class OwnableInvalidOwnerError extends AuctionError {}
+export class OwnableUnauthorizedAccountError extends AuctionError {}
+export class ReentrancyGuardReentrantCallError extends AuctionError {}
+export class SafeERC20FailedOperationError extends AuctionError {}
+
+type AuctionErrorClass = new (
+  errorName: AuctionErrorName,
+  args?: readonly unknown[],
+  options?: { cause?: unknown }
+) => AuctionError;
+
+const ERROR_CLASSES: Record<AuctionErrorName, AuctionErrorClass> = {
+  AlreadyInitialized: AlreadyInitializedError,
+  AuctionAlreadyCancelled: AuctionAlreadyCancelledError,
+  AuctionAlreadyFinalized: AuctionAlreadyFinalizedError,
+  AuctionNotFinalized: AuctionNotFinalizedError,
+  BidderAlreadyCommitted: BidderAlreadyCommittedError,
+  BidderAlreadyRevealed: BidderAlreadyRevealedError,
+  BidNotRevealed: BidNotRevealedError,
+  BiddingStarted: BiddingStartedError,
+  CommitmentMismatch: CommitmentMismatchError,
+  CommitPhaseEnded: CommitPhaseEndedError,
+  CommitPhaseNotEnded: CommitPhaseNotEndedError,
+  InsufficientDeposit: InsufficientDepositError,
+  InvalidCommitment: InvalidCommitmentError,
+  InvalidLot: InvalidLotError,
+  InvalidPaymentToken: InvalidPaymentTokenError,
+  InvalidQuantity: InvalidQuantityError,
+  InvalidSlashBounty: InvalidSlashBountyError,
+  InvalidSoftClose: InvalidSoftCloseError,
+  InvalidUnits: InvalidUnitsError,
+  LotAlreadyDeposited: LotAlreadyDepositedError,
+  LotNotClaimable: LotNotClaimableError,
+  NoCommitmentFound: NoCommitmentFoundError,
+  NoBidToRefund: NoBidToRefundError,
+  NoProceeds: NoProceedsError,
+  NothingToSlash: NothingToSlashError,
+  ReserveAlreadyRevealed: ReserveAlreadyRevealedError,
+  RevealPhaseNotActive: RevealPhaseNotActiveError,
+  RevealPhaseNotEnded: RevealPhaseNotEndedError,
+  TransferFailed: TransferFailedError,
+  Unauthorized: UnauthorizedError,
+  EnforcedPause: EnforcedPauseError,
+  ExpectedPause: ExpectedPauseError,
+  OwnableInvalidOwner: OwnableInvalidOwnerError,
+  OwnableUnauthorizedAccount: OwnableUnauthorizedAccountError,
+  ReentrancyGuardReentrantCall: ReentrancyGuardReentrantCallError,
+  SafeERC20FailedOperation: SafeERC20FailedOperationError,
+};
+
+/**
+ * Converts a viem contract error into the matching AuctionError subclass.
+ * Hardhat nodes report reverts as an RPC error carrying the raw revert data,
+ * which viem leaves undecoded, so that data is decoded against the ABI here.
+ * The data is either a hex string or, when the node cannot name the error
+ * itself, an object whose `data` field holds the hex.
+ * Errors that are not auction custom errors, such as a token's own revert
+ * on a failed approval, are returned unchanged.
+ */
+export function decodeAuctionError(error: unknown, abi: AuctionAbi): unknown {
+  if (!(error instanceof BaseError)) {
+    return error;
+  }
+
+  const reverted = error.walk(
+    (e) => e instanceof ContractFunctionRevertedError || revertDataOf(e) !== undefined
+  );
+
+  let decoded: { errorName: string; args?: readonly unknown[] } | undefined;
+  if (reverted instanceof ContractFunctionRevertedError) {
+    decoded = reverted.data;
+  } else {
+    const data = revertDataOf(reverted);
+    try {
+      decoded = data === undefined ? undefined : decodeErrorResult({ abi, data });
+    } catch {
+      decoded = undefined;
+    }
+  }
+
+  if (decoded === undefined || !(decoded.errorName in ERROR_CLASSES)) {
+    return error;
+  }
+
+  const errorName = decoded.errorName as AuctionErrorName;
+  const ErrorClass = ERROR_CLASSES[errorName];
+  return new ErrorClass(errorName, decoded.args ?? [], { cause: error });
+}
+
+function revertDataOf(error: unknown): Hex | undefined {
+  if (typeof error !== "object" || error === null || !("data" in error)) {
+    return undefined;
+  }
+
+  const data =
+    typeof error.data === "object" && error.data !== null && "data" in error.data
+      ? error.data.data
+      : error.data;
+  return typeof data === "string" && isHex(data) ? data : undefined;
+}
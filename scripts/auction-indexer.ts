@@ -0,0 +1,406 @@
+import fs from "fs";
+import path from "path";
+import { getAddress } from "viem";
+import type { AbiEvent, Address, Hex } from "viem";
+import type {
+  ContractReturnType,
+  HardhatViemHelpers,
+  PublicClient,
+} from "@nomicfoundation/hardhat-viem/types";
+
+export const INDEX_DIR = path.join(process.cwd(), ".auction-index");
+
+/** Auction events the indexer records. */
+export const INDEXED_EVENTS = [
+  "BidCommitted",
+  "BidRevealed",
+  "AuctionFinalized",
+  "BidRefunded",
+  "NonRevealSlashed",
+  "AuctionCancelled",
+] as const;
+
+export type IndexedEventName = (typeof INDEXED_EVENTS)[number];
+
+type AuctionAbi = ContractReturnType<"SealedBidAuctionBase">["abi"];
+
+/** One auction event, flattened to the account and amount it is about. */
+export interface IndexedEvent {
+  auction: Address;
+  eventName: IndexedEventName;
+  /**
+   * The bidder, or the winner for AuctionFinalized (the zero address when
+   * unsold); null for AuctionCancelled.
+   */
+  account: Address | null;
+  /**
+   * The deposit, revealed price, highest bid, refund or slashed deposit, in
+   * base units of the payment asset; 0 for AuctionCancelled.
+   */
+  amount: bigint;
+  blockNumber: bigint;
+  blockHash: Hex;
+  timestamp: bigint;
+  transactionHash: Hex;
+  logIndex: number;
+}
+
+/** The last block indexed for an auction; a different hash there means a reorg. */
+export interface Checkpoint {
+  blockNumber: bigint;
+  blockHash: Hex;
+}
+
+/** Everything the indexer knows about one chain. */
+export interface IndexSnapshot {
+  chainId: number;
+  checkpoints: Record<Address, Checkpoint>;
+  events: IndexedEvent[];
+}
+
+export interface IndexStore {
+  load(): IndexSnapshot | undefined;
+  save(snapshot: IndexSnapshot): void;
+}
+
+/** Keeps the index in memory only; for tests and one-off queries. */
+export class MemoryIndexStore implements IndexStore {
+  private snapshot: IndexSnapshot | undefined;
+
+  load(): IndexSnapshot | undefined {
+    return this.snapshot;
+  }
+
+  save(snapshot: IndexSnapshot): void {
+    this.snapshot = structuredClone(snapshot);
+  }
+}
+
+/**
+ * Keeps the index in a JSON file, by default `.auction-index/<chainId>.json`.
+ * Amounts, block numbers and timestamps are written as decimal strings.
+ */
+export class JsonIndexStore implements IndexStore {
+  readonly file: string;
+
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  static forChain(chainId: number, dir: string = INDEX_DIR): JsonIndexStore {
+    return new JsonIndexStore(path.join(dir, `${chainId}.json`));
+  }
+
+  load(): IndexSnapshot | undefined {
+    if (!fs.existsSync(this.file)) {
+      return undefined;
+    }
+    const raw = JSON.parse(fs.readFileSync(this.file, "utf-8"));
+    const checkpoints: Record<Address, Checkpoint> = {};
+    for (const [auction, checkpoint] of Object.entries<{ blockNumber: string; blockHash: Hex }>(
+      raw.checkpoints
+    )) {
+      checkpoints[auction as Address] = {
+        blockNumber: BigInt(checkpoint.blockNumber),
+        blockHash: checkpoint.blockHash,
+      };
+    }
+    return {
+      chainId: raw.chainId,
+      checkpoints,
+      events: raw.events.map((event: Record<string, string | number | null>) => ({
+        ...event,
+        amount: BigInt(event.amount as string),
+        blockNumber: BigInt(event.blockNumber as string),
+        timestamp: BigInt(event.timestamp as string),
+      })),
+    };
+  }
+
+  save(snapshot: IndexSnapshot): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const json = JSON.stringify(
+      snapshot,
+      (_, value) => (typeof value === "bigint" ? value.toString() : value),
+      2
+    );
+    // Write then rename, so an interrupted save leaves the old index intact.
+    fs.writeFileSync(`${this.file}.tmp`, json);
+    fs.renameSync(`${this.file}.tmp`, this.file);
+  }
+}
+
+export interface SyncResult {
+  /** Events found by this sync, oldest first. */
+  added: IndexedEvent[];
+  /** Events dropped because their blocks were reorged out. */
+  removed: IndexedEvent[];
+  blockNumber: bigint;
+}
+
+export interface RevealRate {
+  auction: Address;
+  committed: number;
+  revealed: number;
+  /** revealed / committed, or null before the first commit. */
+  rate: number | null;
+}
+
+export interface IndexerOptions {
+  /** First block to read for an auction not indexed yet (default 0). */
+  fromBlock?: bigint;
+  /** Most blocks per getLogs request (default 10,000). */
+  blockRange?: bigint;
+}
+
+/**
+ * Rebuilds auction history from event logs. sync() backfills each auction
+ * from its checkpoint to the head with getLogs; watch() repeats that
+ * whenever watchContractEvent sees new logs. Before reading on, each
+ * checkpoint's block hash is compared with the chain, and events from
+ * blocks that were reorged out are dropped and read again.
+ */
+export class AuctionIndexer {
+  readonly publicClient: PublicClient;
+  private readonly abi: AuctionAbi;
+  private readonly store: IndexStore;
+  private readonly fromBlock: bigint;
+  private readonly blockRange: bigint;
+  private snapshot: IndexSnapshot;
+
+  constructor(
+    publicClient: PublicClient,
+    abi: AuctionAbi,
+    chainId: number,
+    store: IndexStore,
+    options: IndexerOptions = {}
+  ) {
+    this.publicClient = publicClient;
+    this.abi = abi;
+    this.store = store;
+    this.fromBlock = options.fromBlock ?? 0n;
+    this.blockRange = options.blockRange ?? 10_000n;
+
+    const snapshot = store.load();
+    if (snapshot !== undefined && snapshot.chainId !== chainId) {
+      throw new Error(`The index holds chain ${snapshot.chainId}, not chain ${chainId}`);
+    }
+    this.snapshot = snapshot ?? { chainId, checkpoints: {}, events: [] };
+  }
+
+  /** Opens the index for the connected chain, in its JSON file unless a store is given. */
+  static async connect(
+    viem: HardhatViemHelpers,
+    options: IndexerOptions & { store?: IndexStore } = {}
+  ): Promise<AuctionIndexer> {
+    const publicClient = await viem.getPublicClient();
+    const chainId = await publicClient.getChainId();
+    const { abi } = await viem.getContractAt(
+      "SealedBidAuctionBase",
+      "0x0000000000000000000000000000000000000000"
+    );
+    return new AuctionIndexer(
+      publicClient,
+      abi,
+      chainId,
+      options.store ?? JsonIndexStore.forChain(chainId),
+      options
+    );
+  }
+
+  /** Indexes `auctions` up to `toBlock` (the latest block by default) and saves the index. */
+  async sync(auctions: readonly Address[], toBlock?: bigint): Promise<SyncResult> {
+    const head = await this.publicClient.getBlock(
+      toBlock === undefined ? {} : { blockNumber: toBlock }
+    );
+    const added: IndexedEvent[] = [];
+    const removed: IndexedEvent[] = [];
+
+    for (const auction of auctions.map((address) => getAddress(address))) {
+      removed.push(...(await this.rewind(auction)));
+
+      const checkpoint = this.snapshot.checkpoints[auction];
+      let from = checkpoint === undefined ? this.fromBlock : checkpoint.blockNumber + 1n;
+      while (from <= head.number) {
+        const to = from + this.blockRange - 1n < head.number ? from + this.blockRange - 1n : head.number;
+        added.push(...(await this.readEvents(auction, from, to)));
+        from = to + 1n;
+      }
+      this.snapshot.checkpoints[auction] = { blockNumber: head.number, blockHash: head.hash };
+    }
+
+    this.snapshot.events.push(...added);
+    this.store.save(this.snapshot);
+    return { added: sortEvents(added), removed, blockNumber: head.number };
+  }
+
+  /**
+   * Syncs now and again whenever new auction logs appear. Returns a
+   * function that stops watching.
+   */
+  watch(
+    auctions: readonly Address[],
+    handlers: {
+      onSync?: (result: SyncResult) => void;
+      onError?: (error: unknown) => void;
+      pollingInterval?: number;
+    } = {}
+  ): () => void {
+    const onError = handlers.onError ?? ((error: unknown) => console.error(error));
+    // Syncs run one at a time; a burst of logs queues them up.
+    let pending: Promise<void> = Promise.resolve();
+    const trigger = () => {
+      pending = pending
+        .then(() => this.sync(auctions))
+        .then((result) => handlers.onSync?.(result), onError);
+    };
+
+    trigger();
+    return this.publicClient.watchContractEvent({
+      address: [...auctions],
+      abi: this.abi,
+      onLogs: trigger,
+      onError,
+      pollingInterval: handlers.pollingInterval,
+    });
+  }
+
+  /** Indexed events, oldest first, narrowed by auction, account and name. */
+  getEvents(
+    filter: { auction?: Address; account?: Address; eventName?: IndexedEventName } = {}
+  ): IndexedEvent[] {
+    const auction = filter.auction === undefined ? undefined : getAddress(filter.auction);
+    const account = filter.account === undefined ? undefined : getAddress(filter.account);
+    return sortEvents(
+      this.snapshot.events.filter(
+        (event) =>
+          (auction === undefined || event.auction === auction) &&
+          (account === undefined || event.account === account) &&
+          (filter.eventName === undefined || event.eventName === filter.eventName)
+      )
+    );
+  }
+
+  /** Everything that happened to `bidder`, across auctions unless one is given. */
+  timelineFor(bidder: Address, auction?: Address): IndexedEvent[] {
+    return this.getEvents({ auction, account: bidder });
+  }
+
+  /** Share of commits that were revealed, for each indexed auction. */
+  revealRates(): RevealRate[] {
+    return Object.keys(this.snapshot.checkpoints).map((key) => {
+      const auction = key as Address;
+      const committed = this.getEvents({ auction, eventName: "BidCommitted" }).length;
+      const revealed = this.getEvents({ auction, eventName: "BidRevealed" }).length;
+      return { auction, committed, revealed, rate: committed === 0 ? null : revealed / committed };
+    });
+  }
+
+  /**
+   * Walks the auction's checkpoint back until its block is still on the
+   * chain, dropping the events above it. Returns the dropped events.
+   */
+  private async rewind(auction: Address): Promise<IndexedEvent[]> {
+    const removed: IndexedEvent[] = [];
+    let checkpoint: Checkpoint | undefined = this.snapshot.checkpoints[auction];
+    while (checkpoint !== undefined) {
+      const block = await this.publicClient
+        .getBlock({ blockNumber: checkpoint.blockNumber })
+        .catch(() => undefined);
+      if (block?.hash === checkpoint.blockHash) break;
+
+      // Reorged: forget this block and everything after it, then check
+      // the latest earlier block that had an event.
+      const from = checkpoint.blockNumber;
+      const kept = this.snapshot.events.filter((event) => {
+        const drop = event.auction === auction && event.blockNumber >= from;
+        if (drop) removed.push(event);
+        return !drop;
+      });
+      this.snapshot.events = kept;
+      const [latest] = this.getEvents({ auction }).slice(-1);
+      checkpoint =
+        latest === undefined
+          ? undefined
+          : { blockNumber: latest.blockNumber, blockHash: latest.blockHash };
+    }
+
+    if (checkpoint === undefined) {
+      delete this.snapshot.checkpoints[auction];
+    } else {
+      this.snapshot.checkpoints[auction] = checkpoint;
+    }
+    return sortEvents(removed);
+  }
+
+  private async readEvents(auction: Address, fromBlock: bigint, toBlock: bigint) {
+    const events = this.abi.filter(
+      (item): item is Extract<AuctionAbi[number], { type: "event" }> =>
+        item.type === "event" && (INDEXED_EVENTS as readonly string[]).includes(item.name)
+    ) as AbiEvent[];
+    const logs = await this.publicClient.getLogs({
+      address: auction,
+      events,
+      fromBlock,
+      toBlock,
+      strict: true,
+    });
+
+    const timestamps = new Map<Hex, bigint>();
+    const indexed: IndexedEvent[] = [];
+    for (const log of logs) {
+      if (!timestamps.has(log.blockHash)) {
+        const block = await this.publicClient.getBlock({ blockHash: log.blockHash });
+        timestamps.set(log.blockHash, block.timestamp);
+      }
+      const args = log.args as Record<string, unknown>;
+      const eventName = log.eventName as IndexedEventName;
+      indexed.push({
+        auction,
+        eventName,
+        account: accountOf(eventName, args),
+        amount: amountOf(eventName, args),
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        timestamp: timestamps.get(log.blockHash)!,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex,
+      });
+    }
+    return indexed;
+  }
+}
+
+function accountOf(eventName: IndexedEventName, args: Record<string, unknown>): Address | null {
+  switch (eventName) {
+    case "AuctionCancelled":
+      return null;
+    case "AuctionFinalized":
+      return getAddress(args.winner as Address);
+    default:
+      return getAddress(args.bidder as Address);
+  }
+}
+
+function amountOf(eventName: IndexedEventName, args: Record<string, unknown>): bigint {
+  switch (eventName) {
+    case "AuctionCancelled":
+      return 0n;
+    case "BidCommitted":
+      return args.deposit as bigint;
+    case "AuctionFinalized":
+      return args.highestBid as bigint;
+    default:
+      return args.amount as bigint;
+  }
+}
+
+function sortEvents(events: IndexedEvent[]): IndexedEvent[] {
+  return [...events].sort((a, b) =>
+    a.blockNumber === b.blockNumber
+      ? a.logIndex - b.logIndex
+      : a.blockNumber < b.blockNumber
+        ? -1
+        : 1
+  );
+}
@@ -0,0 +1,169 @@
+import { getAddress, parseEventLogs, zeroAddress } from "viem";
+import type { Account, Address, Hex, TransactionReceipt } from "viem";
+import type {
+  ContractReturnType,
+  HardhatViemHelpers,
+  PublicClient,
+} from "@nomicfoundation/hardhat-viem/types";
+import { PRICING_MODES, TIE_BREAKS, phaseAt } from "./auction-client.js";
+import type { AuctionPhase, PricingMode, SoftClose, TieBreak } from "./auction-client.js";
+import { decodeAuctionError } from "./auction-errors.js";
+
+export type FactoryContract = ContractReturnType<"AuctionFactory">;
+
+/** Settings for AuctionFactory.createAuction(); all but the durations are optional. */
+export interface CreateAuctionParams {
+  commitDuration: bigint;
+  revealDuration: bigint;
+  /** ERC-20 token to bid in; ETH when omitted. */
+  paymentToken?: Address;
+  pricing?: PricingMode;
+  tieBreak?: TieBreak;
+  units?: bigint;
+  /** Public reserve in base units of the payment asset. */
+  reservePrice?: bigint;
+  /** Basis points of a slashed deposit paid to the slasher. */
+  slashBounty?: bigint;
+  softClose?: SoftClose;
+}
+
+/** One registered auction and where it stands. */
+export interface AuctionListing {
+  address: Address;
+  creator: Address;
+  /** Payment token, or the zero address for ETH. */
+  paymentToken: Address;
+  phase: AuctionPhase;
+  commitEndTime: bigint;
+  revealEndTime: bigint;
+}
+
+export interface AuctionFilter {
+  creator?: Address;
+  phase?: AuctionPhase;
+}
+
+/**
+ * Creates auctions through an AuctionFactory and lists the ones it
+ * registered, so a dashboard can enumerate every auction from the factory
+ * address alone.
+ */
+export class AuctionRegistry {
+  readonly factory: FactoryContract;
+  readonly publicClient: PublicClient;
+  private readonly viem: HardhatViemHelpers;
+  /** The ERC-20 template, whose ABI covers every error a clone can revert with. */
+  private readonly template: ContractReturnType<"SealedBidAuctionERC20">;
+
+  constructor(
+    factory: FactoryContract,
+    publicClient: PublicClient,
+    viem: HardhatViemHelpers,
+    template: ContractReturnType<"SealedBidAuctionERC20">
+  ) {
+    this.factory = factory;
+    this.publicClient = publicClient;
+    this.viem = viem;
+    this.template = template;
+  }
+
+  static async connect(viem: HardhatViemHelpers, address: Address): Promise<AuctionRegistry> {
+    const [factory, publicClient] = await Promise.all([
+      viem.getContractAt("AuctionFactory", address),
+      viem.getPublicClient(),
+    ]);
+    const template = await viem.getContractAt(
+      "SealedBidAuctionERC20",
+      await factory.read.erc20Implementation()
+    );
+    return new AuctionRegistry(factory, publicClient, viem, template);
+  }
+
+  get address(): Address {
+    return this.factory.address;
+  }
+
+  /** Creates an auction owned by `account`; its phases start with this block. */
+  async create(
+    account: Account | Address,
+    params: CreateAuctionParams
+  ): Promise<{ auction: Address; receipt: TransactionReceipt }> {
+    const args = [
+      {
+        commitDuration: params.commitDuration,
+        revealDuration: params.revealDuration,
+        paymentToken: params.paymentToken ?? zeroAddress,
+        pricingMode: PRICING_MODES.indexOf(params.pricing ?? "first-price"),
+        tieBreak: TIE_BREAKS.indexOf(params.tieBreak ?? "earliest-commit"),
+        units: params.units ?? 1n,
+        reservePrice: params.reservePrice ?? 0n,
+        slashBounty: params.slashBounty ?? 0n,
+        softCloseWindow: params.softClose?.window ?? 0n,
+        softCloseExtension: params.softClose?.extension ?? 0n,
+        softCloseCap: params.softClose?.cap ?? 0n,
+      },
+    ] as const;
+    const from = typeof account === "string" ? account : account.address;
+
+    const receipt = await this.send(async () => {
+      await this.factory.simulate.createAuction(args, { account: from });
+      return this.factory.write.createAuction(args, { account });
+    });
+    const [created] = parseEventLogs({
+      abi: this.factory.abi,
+      logs: receipt.logs,
+      eventName: "AuctionCreated",
+    });
+    return { auction: getAddress(created.args.auction), receipt };
+  }
+
+  /** Registered auctions, oldest first, narrowed by creator and phase. */
+  async list(filter: AuctionFilter = {}): Promise<AuctionListing[]> {
+    const [addresses, block] = await Promise.all([
+      filter.creator === undefined
+        ? this.factory.read.getAuctions()
+        : this.factory.read.getAuctionsByCreator([filter.creator]),
+      this.publicClient.getBlock(),
+    ]);
+
+    const listings = await Promise.all(
+      addresses.map(async (address) => {
+        const auction = await this.viem.getContractAt("SealedBidAuctionBase", address);
+        const [creator, paymentToken, commitEndTime, revealEndTime, finalized, cancelled] =
+          await Promise.all([
+            this.factory.read.creatorOf([address]),
+            auction.read.paymentToken(),
+            auction.read.commitEndTime(),
+            auction.read.revealEndTime(),
+            auction.read.finalized(),
+            auction.read.cancelled(),
+          ]);
+        return {
+          address: getAddress(address),
+          creator: getAddress(creator),
+          paymentToken: getAddress(paymentToken),
+          phase: phaseAt(
+            { now: block.timestamp, commitEndTime, revealEndTime },
+            finalized,
+            cancelled
+          ),
+          commitEndTime,
+          revealEndTime,
+        };
+      })
+    );
+    return filter.phase === undefined
+      ? listings
+      : listings.filter((listing) => listing.phase === filter.phase);
+  }
+
+  private async send(submit: () => Promise<Hex>): Promise<TransactionReceipt> {
+    let hash: Hex;
+    try {
+      hash = await submit();
+    } catch (error) {
+      throw decodeAuctionError(error, this.template.abi);
+    }
+    return this.publicClient.waitForTransactionReceipt({ hash });
+  }
+}
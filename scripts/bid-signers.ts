@@ -0,0 +1,176 @@
+import crypto from "crypto";
+import fs from "fs";
+import { getAddress, isHex, keccak256 } from "viem";
+import type { Account, Address, Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import type { HardhatViemHelpers } from "@nomicfoundation/hardhat-viem/types";
+
+/** Comma-separated private keys of bidders the node has no account for. */
+export const PRIVATE_KEYS_ENV = "AUCTION_BIDDER_KEYS";
+/** Comma-separated paths of Web3 Secret Storage (v3) keystore files. */
+export const KEYSTORES_ENV = "AUCTION_BIDDER_KEYSTORES";
+export const KEYSTORE_PASSWORD_ENV = "AUCTION_KEYSTORE_PASSWORD";
+
+export interface SignerOptions {
+  privateKeys?: string[];
+  keystores?: string[];
+  keystorePassword?: string;
+}
+
+/** A keystore file in the Web3 Secret Storage v3 format written by geth, Foundry and others. */
+interface KeystoreFile {
+  version: 3;
+  crypto: {
+    cipher: "aes-128-ctr";
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: "scrypt" | "pbkdf2";
+    kdfparams:
+      | { dklen: number; n: number; r: number; p: number; salt: string }
+      | { dklen: number; c: number; prf: "hmac-sha256"; salt: string };
+    mac: string;
+  };
+}
+
+export class KeystorePasswordMissingError extends Error {
+  constructor() {
+    super(
+      `Set ${KEYSTORE_PASSWORD_ENV} to decrypt the keystores in ${KEYSTORES_ENV} or --keystore`
+    );
+    this.name = "KeystorePasswordMissingError";
+  }
+}
+
+export class KeystoreDecryptionError extends Error {
+  readonly file: string;
+
+  constructor(file: string, reason: string, options?: { cause?: unknown }) {
+    super(`Could not decrypt keystore ${file}: ${reason}`, options);
+    this.name = "KeystoreDecryptionError";
+    this.file = file;
+  }
+}
+
+/** Reads the private key out of a v3 keystore file. */
+export function decryptKeystore(file: string, password: string): Hex {
+  let keystore: KeystoreFile;
+  try {
+    keystore = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (error) {
+    throw new KeystoreDecryptionError(file, "not a readable JSON file", { cause: error });
+  }
+  // Some older tools capitalize the section name.
+  const params =
+    keystore.crypto ?? (keystore as unknown as { Crypto?: KeystoreFile["crypto"] }).Crypto;
+  if (keystore.version !== 3 || params?.cipher !== "aes-128-ctr") {
+    throw new KeystoreDecryptionError(
+      file,
+      "only version 3 keystores using aes-128-ctr are supported"
+    );
+  }
+
+  const derivedKey = deriveKeystoreKey(file, password, params);
+  const ciphertext = Buffer.from(params.ciphertext, "hex");
+  const mac = keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext]));
+  if (mac.slice(2) !== params.mac.toLowerCase()) {
+    throw new KeystoreDecryptionError(file, "wrong password or corrupted file");
+  }
+
+  const decipher = crypto.createDecipheriv(
+    "aes-128-ctr",
+    derivedKey.subarray(0, 16),
+    Buffer.from(params.cipherparams.iv, "hex")
+  );
+  const privateKey = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  return `0x${privateKey.toString("hex")}`;
+}
+
+function deriveKeystoreKey(
+  file: string,
+  password: string,
+  { kdf, kdfparams }: KeystoreFile["crypto"]
+): Buffer {
+  const salt = Buffer.from(kdfparams.salt, "hex");
+  if (kdf === "scrypt" && "n" in kdfparams) {
+    const { n, r, p, dklen } = kdfparams;
+    try {
+      // geth's default N = 2^18 with r = 8 needs 256 MiB, past Node's default maxmem.
+      return crypto.scryptSync(password, salt, dklen, { N: n, r, p, maxmem: 256 * n * r });
+    } catch (error) {
+      // OpenSSL also rejects N >= 2^(16r), which some tools allow.
+      throw new KeystoreDecryptionError(file, "unsupported scrypt parameters", { cause: error });
+    }
+  }
+  if (kdf === "pbkdf2" && "c" in kdfparams && kdfparams.prf === "hmac-sha256") {
+    return crypto.pbkdf2Sync(password, salt, kdfparams.c, kdfparams.dklen, "sha256");
+  }
+  throw new KeystoreDecryptionError(file, `unsupported key derivation ${kdf}`);
+}
+
+/** Splits a comma-separated list of keys or files, dropping blanks. */
+export function parseList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item !== "");
+}
+
+/** Reads SignerOptions from the environment variables above. */
+export function signerOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): SignerOptions {
+  return {
+    privateKeys: parseList(env[PRIVATE_KEYS_ENV]),
+    keystores: parseList(env[KEYSTORES_ENV]),
+    keystorePassword: env[KEYSTORE_PASSWORD_ENV],
+  };
+}
+
+/**
+ * The accounts that can sign for bidders, looked up by the address a bid was
+ * committed from. Holds the node's own accounts plus any given as private
+ * keys or keystore files; those sign locally and only need the node to
+ * broadcast.
+ */
+export class BidderSigners {
+  private readonly accounts = new Map<Address, Account>();
+
+  constructor(accounts: Account[]) {
+    for (const account of accounts) {
+      this.accounts.set(getAddress(account.address), account);
+    }
+  }
+
+  /** The node's accounts, plus the keys in `options` (by default read from the environment). */
+  static async load(
+    viem: HardhatViemHelpers,
+    options: SignerOptions = signerOptionsFromEnv()
+  ): Promise<BidderSigners> {
+    const walletClients = await viem.getWalletClients();
+    const keys = (options.privateKeys ?? []).map((key, i) => {
+      if (!isHex(key) || key.length !== 66) {
+        // Never echo the value: it may be a key with a typo.
+        throw new Error(`Invalid private key #${i + 1} in ${PRIVATE_KEYS_ENV} or --key`);
+      }
+      return key;
+    });
+
+    const keystores = options.keystores ?? [];
+    if (keystores.length > 0) {
+      if (!options.keystorePassword) {
+        throw new KeystorePasswordMissingError();
+      }
+      for (const file of keystores) {
+        keys.push(decryptKeystore(file, options.keystorePassword));
+      }
+    }
+
+    return new BidderSigners([
+      ...walletClients.map((client) => client.account),
+      ...keys.map((key) => privateKeyToAccount(key)),
+    ]);
+  }
+
+  /** The signer for `address`, or undefined if none was given. */
+  find(address: string): Account | undefined {
+    return this.accounts.get(getAddress(address));
+  }
+}
@@ -0,0 +1,310 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { getAddress, zeroHash } from "viem";
+import type { Account, Address } from "viem";
+import type { AuctionClient, CommitResult } from "./auction-client.js";
+import { AuctionError, BidderAlreadyCommittedError } from "./auction-errors.js";
+
+export interface Bid {
+  bidderIndex: number;
+  address: string;
+  bidAmount: string;
+  /** Base units of the payment asset escrowed with the commit. */
+  deposit: string;
+  /** Units bid for in a multi-unit auction, `bidAmount` each; absent means 1. */
+  quantity?: string;
+  secret: string;
+  commitment: string;
+  /**
+   * Saved before the commit was sent and not yet confirmed. The commit may
+   * or may not have landed; AuctionClient.checkReveal() tells which.
+   */
+  pending?: boolean;
+}
+
+export interface EncryptedBidFile {
+  version: 1;
+  kdf: "scrypt";
+  kdfParams: { N: number; r: number; p: number; keyLength: number };
+  cipher: "aes-256-gcm";
+  salt: string;
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+}
+
+export const VAULT_DIR = path.join(process.cwd(), ".auction-vault");
+export const PLAINTEXT_BIDS_FILE = path.join(process.cwd(), ".auction-bids.json");
+export const PASSPHRASE_ENV = "AUCTION_VAULT_PASSPHRASE";
+
+// 2^14 iterations with r=8 needs 16 MiB, inside Node's default scrypt maxmem.
+const KDF_PARAMS = { N: 2 ** 14, r: 8, p: 1, keyLength: 32 };
+
+export class VaultPassphraseMissingError extends Error {
+  constructor() {
+    super(`Set ${PASSPHRASE_ENV} to encrypt and decrypt stored bids`);
+    this.name = "VaultPassphraseMissingError";
+  }
+}
+
+export class VaultDecryptionError extends Error {
+  readonly file: string;
+
+  constructor(file: string, options?: { cause?: unknown }) {
+    super(`Could not decrypt ${file}: wrong passphrase or corrupted file`, options);
+    this.name = "VaultDecryptionError";
+    this.file = file;
+  }
+}
+
+export class BidAlreadyStoredError extends Error {
+  readonly file: string;
+
+  constructor(file: string, options?: { cause?: unknown }) {
+    super(
+      `A bid is already stored in ${file}; its commit may still be pending. Remove the file only if that commit never landed`,
+      options
+    );
+    this.name = "BidAlreadyStoredError";
+    this.file = file;
+  }
+}
+
+export function encryptBid(bid: Bid, passphrase: string): EncryptedBidFile {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const key = deriveKey(passphrase, salt, KDF_PARAMS);
+
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(JSON.stringify(bid), "utf-8"),
+    cipher.final(),
+  ]);
+
+  return {
+    version: 1,
+    kdf: "scrypt",
+    kdfParams: KDF_PARAMS,
+    cipher: "aes-256-gcm",
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    authTag: cipher.getAuthTag().toString("base64"),
+    ciphertext: ciphertext.toString("base64"),
+  };
+}
+
+/**
+ * Decrypts a vault record. AES-GCM authenticates the ciphertext, so a wrong
+ * passphrase or a tampered file fails here rather than yielding garbage.
+ */
+export function decryptBid(file: EncryptedBidFile, passphrase: string): Bid {
+  const key = deriveKey(passphrase, Buffer.from(file.salt, "base64"), file.kdfParams);
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    key,
+    Buffer.from(file.iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(file.authTag, "base64"));
+
+  const plaintext = Buffer.concat([
+    decipher.update(Buffer.from(file.ciphertext, "base64")),
+    decipher.final(),
+  ]);
+  return JSON.parse(plaintext.toString("utf-8"));
+}
+
+/** Writes `bid` to `file`; with `exclusive`, fails with EEXIST if the file is already there. */
+export function writeBidFile(
+  file: string,
+  bid: Bid,
+  passphrase: string,
+  options: { exclusive?: boolean } = {}
+): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(encryptBid(bid, passphrase), null, 2), {
+    mode: 0o600,
+    flag: options.exclusive ? "wx" : "w",
+  });
+}
+
+export function readBidFile(file: string, passphrase: string): Bid {
+  const encrypted: EncryptedBidFile = JSON.parse(fs.readFileSync(file, "utf-8"));
+  try {
+    return decryptBid(encrypted, passphrase);
+  } catch (error) {
+    throw new VaultDecryptionError(file, { cause: error });
+  }
+}
+
+/**
+ * Encrypted bid storage for one auction, one file per bidder:
+ *   <dir>/<chainId>/<auction>/<bidder>.json
+ * The seller's hidden reserve price is kept in the same format, in
+ * <dir>/<chainId>/<auction>/reserve.enc so it is never listed as a bid.
+ * The chain id is part of the path because local nodes reuse the same
+ * contract addresses on every restart.
+ */
+export class BidVault {
+  readonly dir: string;
+  private readonly passphrase: string;
+
+  constructor(
+    chainId: number,
+    auction: Address,
+    options: { dir?: string; passphrase?: string } = {}
+  ) {
+    const passphrase = options.passphrase ?? process.env[PASSPHRASE_ENV];
+    if (!passphrase) {
+      throw new VaultPassphraseMissingError();
+    }
+
+    this.passphrase = passphrase;
+    this.dir = path.join(
+      options.dir ?? process.env.AUCTION_VAULT_DIR ?? VAULT_DIR,
+      String(chainId),
+      getAddress(auction)
+    );
+  }
+
+  fileFor(bidder: string): string {
+    return path.join(this.dir, `${getAddress(bidder)}.json`);
+  }
+
+  get reserveFile(): string {
+    return path.join(this.dir, "reserve.enc");
+  }
+
+  save(bid: Bid): void {
+    writeBidFile(this.fileFor(bid.address), bid, this.passphrase);
+  }
+
+  load(bidder: string): Bid | undefined {
+    const file = this.fileFor(bidder);
+    if (!fs.existsSync(file)) {
+      return undefined;
+    }
+    return readBidFile(file, this.passphrase);
+  }
+
+  list(): Bid[] {
+    if (!fs.existsSync(this.dir)) {
+      return [];
+    }
+    return fs
+      .readdirSync(this.dir)
+      .filter((name) => name.endsWith(".json"))
+      .map((name) => readBidFile(path.join(this.dir, name), this.passphrase))
+      .sort((a, b) => a.bidderIndex - b.bidderIndex);
+  }
+
+  readFile(file: string): Bid {
+    return readBidFile(file, this.passphrase);
+  }
+
+  writeFile(file: string, bid: Bid, options: { exclusive?: boolean } = {}): void {
+    writeBidFile(file, bid, this.passphrase, options);
+  }
+}
+
+/**
+ * Commits a bid and stores it in `file` (by default the bidder's vault
+ * file). The record is written, marked pending, before anything is sent, so
+ * a crash or an interrupted wait for the receipt cannot leave a deposit
+ * on-chain whose secret was never stored. The mark is cleared once the
+ * commit is mined; a commit the contract refused removes the record again.
+ * An existing record, pending or not, is never replaced: its commit may
+ * still be in flight, and its secret is the only way to reveal it.
+ */
+export async function commitAndSave(
+  auction: AuctionClient,
+  vault: BidVault,
+  account: Account,
+  bid: Pick<Bid, "bidderIndex" | "secret"> & {
+    bidAmount: bigint;
+    deposit: bigint;
+    quantity?: bigint;
+  },
+  file: string = vault.fileFor(account.address)
+): Promise<CommitResult & { bid: Bid }> {
+  const quantity = bid.quantity ?? 1n;
+  // Never overwrite the secret of a commitment that is already on-chain.
+  if ((await auction.contract.read.getCommitment([account.address])) !== zeroHash) {
+    throw new BidderAlreadyCommittedError("BidderAlreadyCommitted");
+  }
+  for (const existing of new Set([file, vault.fileFor(account.address)])) {
+    if (fs.existsSync(existing)) throw new BidAlreadyStoredError(existing);
+  }
+
+  const stored: Bid = {
+    bidderIndex: bid.bidderIndex,
+    address: account.address,
+    bidAmount: bid.bidAmount.toString(),
+    deposit: bid.deposit.toString(),
+    ...(quantity === 1n ? {} : { quantity: quantity.toString() }),
+    secret: bid.secret,
+    commitment: await auction.commitmentFor(account, bid.bidAmount, bid.secret, quantity),
+  };
+  try {
+    // Exclusive, so a commit racing this one cannot replace its record either.
+    vault.writeFile(file, { ...stored, pending: true }, { exclusive: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      throw new BidAlreadyStoredError(file, { cause: error });
+    }
+    throw error;
+  }
+
+  let result: CommitResult;
+  try {
+    result = await auction.commit(account, bid.bidAmount, bid.secret, bid.deposit, quantity);
+  } catch (error) {
+    // A revert changed nothing on-chain; any other failure may still land.
+    // The record is this call's own: an earlier one would have stopped it above.
+    if (error instanceof AuctionError) fs.rmSync(file, { force: true });
+    throw error;
+  }
+  vault.writeFile(file, stored);
+  return { ...result, bid: stored };
+}
+
+/**
+ * Moves a plaintext bids file (the old .auction-bids.json format) into the
+ * vault. Each record is read back and compared before the plaintext file is
+ * removed, unless `keepPlaintext` is set.
+ */
+export function migratePlaintextBids(
+  vault: BidVault,
+  file: string = PLAINTEXT_BIDS_FILE,
+  keepPlaintext = false
+): Bid[] {
+  // Plaintext records predate escrow, so their commits carried no deposit.
+  const bids: Bid[] = JSON.parse(fs.readFileSync(file, "utf-8")).map(
+    (bid: Omit<Bid, "deposit">) => ({ deposit: "0", ...bid })
+  );
+
+  for (const bid of bids) {
+    vault.save(bid);
+    const stored = vault.load(bid.address);
+    if (stored?.secret !== bid.secret || stored.bidAmount !== bid.bidAmount) {
+      throw new Error(`Vault verification failed for ${bid.address}; ${file} was kept`);
+    }
+  }
+
+  if (!keepPlaintext) {
+    fs.rmSync(file);
+  }
+  return bids;
+}
+
+function deriveKey(
+  passphrase: string,
+  salt: Buffer,
+  params: EncryptedBidFile["kdfParams"]
+): Buffer {
+  return crypto.scryptSync(passphrase, salt, params.keyLength, {
+    N: params.N,
+    r: params.r,
+    p: params.p,
+  });
+}
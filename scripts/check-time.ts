@@ -1,26 +1,28 @@
 import hre from "hardhat";
+import { resolveAuctionAddress } from "./auction-address.js";
+import { AuctionClient } from "./auction-client.js";
 
 async function main() {
   const { viem } = await hre.network.connect();
-  const publicClient = await viem.getPublicClient();
   const testClient = await viem.getTestClient();
-  const auction = await viem.getContractAt("SealedBidAuction", "0x5fbdb2315678afecb367f032d93f642f64180aa3");
+  const auctionAddress = await resolveAuctionAddress(await viem.getPublicClient());
+  const auction = await AuctionClient.connect(viem, auctionAddress);
   
-  const [commitEnd, revealEnd] = await Promise.all([
-    auction.read.commitEndTime(),
-    auction.read.revealEndTime(),
-  ]);
-  
-  const currentBlock = await publicClient.getBlock();
+  const { now, commitEndTime: commitEnd, revealEndTime: revealEnd } =
+    await auction.getTimeline();
   
   console.log("Commit ends at:", Number(commitEnd));
   console.log("Reveal ends at:", Number(revealEnd));
-  console.log("Current timestamp:", Number(currentBlock.timestamp));
+  console.log("Current timestamp:", Number(now));
+  const softClose = await auction.getSoftClose();
+  if (softClose !== null) {
+    console.log(`Soft close: extended ${softClose.extended}s of at most ${softClose.cap}s`);
+  }
 
-  if (Number(currentBlock.timestamp) < Number(commitEnd)) {
+  if (Number(now) < Number(commitEnd)) {
     console.log("\nAdvancing time past commit phase...");
     const targetTime = Number(commitEnd) + 1;
-    await testClient.setNextBlockTimestamp({ timestamp: targetTime });
+    await testClient.setNextBlockTimestamp({ timestamp: BigInt(targetTime) });
     await testClient.mine({ blocks: 1 });
     console.log("Time advanced to:", targetTime);
   } else {
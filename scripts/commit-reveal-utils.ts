@@ -1,4 +1,7 @@
+import crypto from "crypto";
 import { keccak256, toHex, encodePacked } from "viem";
+import type { Address } from "viem";
+import type { WalletClient } from "@nomicfoundation/hardhat-viem/types";
 
 export interface BidCommitment {
   bidAmount: bigint;
@@ -6,21 +9,98 @@ export interface BidCommitment {
   commitment: `0x${string}`;
 }
 
+/**
+ * What a v2 commitment is bound to, mirroring SealedBidAuction.computeCommitment.
+ * Binding the bidder stops a commitment copied from someone else's
+ * BidCommitted event from being revealed by the copier; binding the auction
+ * and chain stops it being replayed elsewhere.
+ */
+export interface CommitmentContext {
+  chainId: number | bigint;
+  auction: Address;
+  bidder: Address;
+}
+
 export function generateCommitment(
   bidAmount: bigint,
-  secret: string
+  secret: string,
+  context: CommitmentContext
 ): `0x${string}` {
   const commitment = keccak256(
-    encodePacked(["uint256", "string"], [bidAmount, secret])
+    encodePacked(
+      ["uint256", "address", "address", "uint256", "string"],
+      [BigInt(context.chainId), context.auction, context.bidder, bidAmount, secret]
+    )
   );
   return commitment;
 }
 
+/**
+ * Commitment for a bid of `quantity` units at `price` each, mirroring
+ * SealedBidAuction.computeMultiUnitCommitment. Single-unit bids use
+ * generateCommitment().
+ */
+export function generateMultiUnitCommitment(
+  price: bigint,
+  quantity: bigint,
+  secret: string,
+  context: CommitmentContext
+): `0x${string}` {
+  return keccak256(
+    encodePacked(
+      ["uint256", "address", "address", "uint256", "uint256", "string"],
+      [BigInt(context.chainId), context.auction, context.bidder, price, quantity, secret]
+    )
+  );
+}
+
+/** Whether the bid opens `commitment`; with a `quantity`, as a multi-unit bid. */
 export function verifyCommitment(
   bidAmount: bigint,
   secret: string,
-  commitment: `0x${string}`
+  commitment: `0x${string}`,
+  context: CommitmentContext,
+  quantity: bigint = 1n
 ): boolean {
-  const computed = generateCommitment(bidAmount, secret);
-  return computed === commitment;
+  const computed =
+    quantity === 1n
+      ? generateCommitment(bidAmount, secret, context)
+      : generateMultiUnitCommitment(bidAmount, quantity, secret, context);
+  return computed === commitment.toLowerCase();
+}
+
+/**
+ * Returns a fresh 32-byte secret from the OS CSPRNG, hex encoded. Anything
+ * weaker lets an observer brute-force small bids from the public commitment.
+ */
+export function generateSecret(): string {
+  return toHex(crypto.randomBytes(32));
+}
+
+/**
+ * Derives a bid secret from the bidder's EIP-712 signature over
+ * (chainId, auction, bidder), so a bidder who lost their vault file can
+ * regenerate it by signing again. ECDSA signers use RFC 6979 nonces, so the
+ * same wallet always produces the same secret. The signature itself is never
+ * sent anywhere; treat it like the secret.
+ */
+export async function deriveSecret(
+  wallet: WalletClient,
+  auction: Address
+): Promise<string> {
+  const signature = await wallet.signTypedData({
+    account: wallet.account,
+    domain: {
+      name: "SealedBidAuction bid secret",
+      version: "1",
+      chainId: await wallet.getChainId(),
+      verifyingContract: auction,
+    },
+    types: {
+      BidSecret: [{ name: "bidder", type: "address" }],
+    },
+    primaryType: "BidSecret",
+    message: { bidder: wallet.account.address },
+  });
+  return keccak256(signature);
 }
@@ -1,48 +1,36 @@
 import hre from "hardhat";
-import { keccak256, encodePacked, parseEther, formatEther } from "viem";
-import fs from "fs";
-import path from "path";
+import { resolveAuctionAddress } from "./auction-address.js";
+import { AuctionClient } from "./auction-client.js";
+import { BidVault, commitAndSave, type Bid } from "./bid-vault.js";
+import { generateSecret } from "./commit-reveal-utils.js";
+import { formatAmount, parseAmount } from "./payment-asset.js";
 
-interface Bid {
-  bidderIndex: number;
-  address: string;
-  bidAmount: string;
-  secret: string;
-  commitment: string;
-}
-
-const AUCTION_ADDRESS = "0x5fbdb2315678afecb367f032d93f642f64180aa3";
-const BIDS_FILE = path.join(process.cwd(), ".auction-bids.json");
 const NUM_BIDDERS = 10;
-
-function saveBids(bids: Bid[]): void {
-  fs.writeFileSync(BIDS_FILE, JSON.stringify(bids, null, 2));
-}
-
-function generateSecret(index: number): string {
-  const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
-  let secret = "secret-";
-  for (let i = 0; i < 16; i++) {
-    secret += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return secret + `-${index}`;
-}
+// Every bidder escrows the same amount, at least the largest bid, so the
+// deposits on-chain say nothing about the bids behind them. In whole units of
+// the payment asset; ERC-20 bidders must hold this much of the token.
+const DEPOSIT = "10";
 
 async function main(): Promise<void> {
   console.log("=== Sealed Bid Auction - Commit Phase ===\n");
-  console.log(`Auction Contract: ${AUCTION_ADDRESS}`);
-  console.log(`Number of Bidders: ${NUM_BIDDERS}\n`);
 
   const { viem } = await hre.network.connect();
+  const auctionAddress = await resolveAuctionAddress(await viem.getPublicClient());
+
+  console.log(`Auction Contract: ${auctionAddress}`);
+  console.log(`Number of Bidders: ${NUM_BIDDERS}\n`);
+
   const walletClients = await viem.getWalletClients();
-  const publicClient = await viem.getPublicClient();
 
   if (walletClients.length < NUM_BIDDERS + 1) {
     console.log(`Error: Need ${NUM_BIDDERS + 1} wallet clients, have ${walletClients.length}`);
     return;
   }
 
-  const auction = await viem.getContractAt("SealedBidAuction", AUCTION_ADDRESS);
+  const auction = await AuctionClient.connect(viem, auctionAddress);
+  const deposit = parseAmount(DEPOSIT, auction.asset);
+  const publicClient = await viem.getPublicClient();
+  const vault = new BidVault(await publicClient.getChainId(), auctionAddress);
 
   const bidders = walletClients.slice(1, NUM_BIDDERS + 1);
   const bids: Bid[] = [];
@@ -51,45 +39,35 @@ async function main(): Promise<void> {
 
   for (let i = 0; i < bidders.length; i++) {
     const wallet = bidders[i];
-    const bidAmount = parseEther((i + 1).toString());
-    const secret = generateSecret(i);
-
-    const commitment = keccak256(
-      encodePacked(["uint256", "string"], [bidAmount, secret])
-    ) as `0x${string}`;
+    const bidAmount = parseAmount((i + 1).toString(), auction.asset);
+    const secret = generateSecret();
 
     console.log(`Bidder ${i + 1}:`);
     console.log(`  Address: ${wallet.account.address}`);
-    console.log(`  Bid Amount: ${formatEther(bidAmount)} ETH`);
-    console.log(`  Secret: ${secret}`);
-    console.log(`  Commitment: ${commitment.slice(0, 30)}...`);
-
-    const hash = await auction.write.commitBid([commitment], {
-      account: wallet.account,
-    });
+    console.log(`  Bid Amount: ${formatAmount(bidAmount, auction.asset)}`);
+    console.log(`  Deposit: ${formatAmount(deposit, auction.asset)}`);
 
-    const receipt = await publicClient.waitForTransactionReceipt({ hash });
-    console.log(`  Tx Hash: ${hash}`);
-    console.log(`  Block: ${receipt.blockNumber}\n`);
-
-    bids.push({
+    // Stored before the commit is sent, so an interrupted run keeps the secret.
+    const { bid, commitment, receipt } = await commitAndSave(auction, vault, wallet.account, {
       bidderIndex: i,
-      address: wallet.account.address,
-      bidAmount: bidAmount.toString(),
+      bidAmount,
+      deposit,
       secret,
-      commitment,
     });
+    console.log(`  Commitment: ${commitment.slice(0, 30)}...`);
+    console.log(`  Tx Hash: ${receipt.transactionHash}`);
+    console.log(`  Block: ${receipt.blockNumber}\n`);
+    bids.push(bid);
   }
 
-  saveBids(bids);
-
   console.log("========================================");
   console.log("Commit Phase Complete!");
   console.log("========================================");
   console.log(`Total bids: ${bids.length}`);
+  console.log(`Encrypted bids stored in: ${vault.dir}`);
   console.log("\nSummary:");
   for (const bid of bids) {
-    console.log(`  ${bid.address.slice(0, 15)}... -> ${formatEther(BigInt(bid.bidAmount))} ETH`);
+    console.log(`  ${bid.address.slice(0, 15)}... -> ${formatAmount(BigInt(bid.bidAmount), auction.asset)}`);
   }
   console.log("\nNext steps:");
   console.log("  1. Wait for commit phase to end");
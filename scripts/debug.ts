@@ -1,32 +1,32 @@
 import hre from "hardhat";
+import { zeroHash } from "viem";
+import { resolveAuctionAddress } from "./auction-address.js";
+import { AuctionClient } from "./auction-client.js";
 
 async function main(): Promise<void> {
-  const AUCTION_ADDRESS = "0x5fbdb2315678afecb367f032d93f642f64180aa3";
-  
   const { viem } = await hre.network.connect();
-  const publicClient = await viem.getPublicClient();
   const walletClients = await viem.getWalletClients();
   
-  const auction = await viem.getContractAt("SealedBidAuction", AUCTION_ADDRESS);
+  const auctionAddress = await resolveAuctionAddress(await viem.getPublicClient());
+  const client = await AuctionClient.connect(viem, auctionAddress);
+  const auction = client.contract;
   
-  const [commitEndTime, revealEndTime, currentBlock] = await Promise.all([
-    auction.read.commitEndTime(),
-    auction.read.revealEndTime(),
-    publicClient.getBlock(),
+  const [{ now, commitEndTime, revealEndTime }, phase] = await Promise.all([
+    client.getTimeline(),
+    client.getPhase(),
   ]);
   
   console.log("=== Contract State Debug ===");
-  console.log("Current timestamp:", Number(currentBlock.timestamp));
+  console.log("Current timestamp:", Number(now));
   console.log("Commit ends at:", Number(commitEndTime));
   console.log("Reveal ends at:", Number(revealEndTime));
-  console.log("Commit phase active:", Number(currentBlock.timestamp) <= Number(commitEndTime));
-  console.log("Reveal phase active:", Number(currentBlock.timestamp) >= Number(commitEndTime) && Number(currentBlock.timestamp) <= Number(revealEndTime));
+  console.log("Phase:", phase);
   
   console.log("\n=== Bids Committed ===");
   const testAddress = walletClients[1].account.address;
   const commitment = await auction.read.getCommitment([testAddress]);
   console.log("Test bidder commitment:", commitment);
-  console.log("Is zero:", commitment === "0x5fbdb2315678afecb367f032d93f642f64180aa3000000000000000000000000");
+  console.log("Is zero:", commitment === zeroHash);
   
   console.log("\n=== Wallet Clients ===");
   console.log("Number of wallets:", walletClients.length);
@@ -1,45 +1,36 @@
 import hre from "hardhat";
-import { formatEther } from "viem";
-import fs from "fs";
-import path from "path";
-
-interface Bid {
-  bidderIndex: number;
-  address: string;
-  bidAmount: string;
-  secret: string;
-  commitment: string;
-}
-
-const AUCTION_ADDRESS = "0x5fbdb2315678afecb367f032d93f642f64180aa3";
-const BIDS_FILE = path.join(process.cwd(), ".auction-bids.json");
-
-function loadBids(): Bid[] {
-  if (fs.existsSync(BIDS_FILE)) {
-    return JSON.parse(fs.readFileSync(BIDS_FILE, "utf-8"));
-  }
-  return [];
-}
+import { checkAllocation, describeTieLoss, findTieLosses } from "./allocation.js";
+import { resolveAuctionAddress } from "./auction-address.js";
+import { zeroAddress } from "viem";
+import {
+  AuctionClient,
+  describeLot,
+  describeLotOutcome,
+  describeReserve,
+} from "./auction-client.js";
+import { BidVault, PASSPHRASE_ENV } from "./bid-vault.js";
+import { formatAmount } from "./payment-asset.js";
 
 async function main(): Promise<void> {
   console.log("=== Sealed Bid Auction - Finalization ===\n");
-  console.log(`Auction Address: ${AUCTION_ADDRESS}\n`);
 
   const { viem } = await hre.network.connect();
+  const auctionAddress = await resolveAuctionAddress(await viem.getPublicClient());
+  console.log(`Auction Address: ${auctionAddress}\n`);
+
   const [walletClient] = await viem.getWalletClients();
-  const publicClient = await viem.getPublicClient();
 
-  const auction = await viem.getContractAt("SealedBidAuction", AUCTION_ADDRESS);
+  const client = await AuctionClient.connect(viem, auctionAddress);
+  const auction = client.contract;
 
-  const revealEndTime = await auction.read.revealEndTime();
-  const currentBlock = await publicClient.getBlock();
+  const { now, revealEndTime } = await client.getTimeline();
 
-  console.log(`Current Time: ${Number(currentBlock.timestamp)}`);
+  console.log(`Current Time: ${Number(now)}`);
   console.log(`Reveal Phase Ends: ${Number(revealEndTime)}`);
 
-  if (currentBlock.timestamp < revealEndTime) {
+  if (now < revealEndTime) {
     console.log("\nERROR: Reveal phase has not ended yet!");
-    const waitTime = Number(revealEndTime - currentBlock.timestamp);
+    const waitTime = Number(revealEndTime - now);
     console.log(`Wait ${waitTime} seconds more`);
     process.exit(1);
   }
@@ -50,48 +41,107 @@ async function main(): Promise<void> {
 
     const winner = await auction.read.winner();
     const highestBid = await auction.read.highestBid();
+    const clearingPrice = await auction.read.clearingPrice();
+    const pricing = await client.getPricingMode();
+    const reserve = await client.getReserve();
 
     console.log("=".repeat(50));
     console.log("AUCTION RESULTS");
     console.log("=".repeat(50));
+    if (winner === zeroAddress) {
+      if (reserve.hidden) {
+        console.log("UNSOLD: the hidden reserve was never revealed");
+      } else {
+        console.log(`UNSOLD: no revealed bid met the reserve (${describeReserve(reserve, client.asset)})`);
+      }
+      console.log(`Reserve: ${describeReserve(reserve, client.asset)}`);
+      console.log("=".repeat(50));
+      return;
+    }
     console.log(`Winner: ${winner}`);
-    console.log(`Highest Bid: ${formatEther(highestBid)} ETH`);
+    console.log(`Winning Bid: ${formatAmount(highestBid, client.asset)}`);
+    console.log(`Clearing Price (${pricing}): ${formatAmount(clearingPrice, client.asset)}`);
     console.log("=".repeat(50));
     return;
   }
 
   console.log("\nFinalizing auction...");
-  const hash = await auction.write.finalizeAuction({
-    account: walletClient.account,
-  });
-
-  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  const receipt = await client.finalize(walletClient.account);
   console.log(`Transaction included in block ${receipt.blockNumber}`);
 
   const winner = await auction.read.winner();
   const highestBid = await auction.read.highestBid();
+  const clearingPrice = await auction.read.clearingPrice();
+  const pricing = await client.getPricingMode();
+  const reserve = await client.getReserve();
+  const sold = winner !== zeroAddress;
 
   console.log("\n" + "=".repeat(50));
   console.log("         AUCTION RESULTS");
   console.log("=".repeat(50));
-  console.log(`Winner: ${winner}`);
-  console.log(`Highest Bid: ${formatEther(highestBid)} ETH`);
+  if (sold) {
+    console.log(`Winner: ${winner}`);
+    console.log(`Winning Bid: ${formatAmount(highestBid, client.asset)}`);
+    console.log(`Clearing Price (${pricing}): ${formatAmount(clearingPrice, client.asset)}`);
+  } else if (reserve.hidden) {
+    console.log("UNSOLD: the hidden reserve was never revealed");
+  } else {
+    console.log(`UNSOLD: no revealed bid met the reserve (${describeReserve(reserve, client.asset)})`);
+  }
+  console.log(`Reserve: ${describeReserve(reserve, client.asset)}`);
+  const units = await client.getUnits();
+  const { bids: revealedBids, actual, mismatches } = await checkAllocation(client);
+  if (units > 1n) {
+    console.log(`Units Sold: ${actual.unitsSold} of ${units}`);
+    for (const allocation of actual.allocations) {
+      console.log(`  ${allocation.bidder}: ${allocation.units} for ${formatAmount(allocation.payment, client.asset)}`);
+    }
+  }
+  const tieBreak = await client.getTieBreak();
+  for (const loss of findTieLosses(revealedBids, actual)) {
+    console.log(describeTieLoss(loss, tieBreak, (price) => formatAmount(price, client.asset)));
+  }
+  if (mismatches.length > 0) {
+    console.log("WARNING: the allocation differs from the off-chain computation:");
+    mismatches.forEach((mismatch) => console.log(`  ${mismatch}`));
+  }
+  const lot = await client.getLot();
+  if (lot !== null) {
+    console.log(`Lot: ${describeLot(lot)}`);
+    console.log(`  ${describeLotOutcome(lot)}`);
+  }
   console.log("=".repeat(50));
 
-  const bids = loadBids();
+  // The bid summary is informational; finalizing does not need the vault.
+  const publicClient = await viem.getPublicClient();
+  const bids = process.env[PASSPHRASE_ENV]
+    ? new BidVault(await publicClient.getChainId(), auctionAddress).list()
+    : [];
   if (bids.length > 0) {
     console.log("\nBid Summary:");
     console.log("-".repeat(50));
     for (const bid of bids) {
-      const isWinner = bid.address.toLowerCase() === winner.toLowerCase();
-      console.log(`${bid.address.slice(0, 10)}... - ${formatEther(BigInt(bid.bidAmount))} ETH ${isWinner ? " [WINNER]" : ""}`);
+      const isWinner = actual.allocations.some(
+        (allocation) => allocation.bidder.toLowerCase() === bid.address.toLowerCase()
+      );
+      console.log(`${bid.address.slice(0, 10)}... - ${formatAmount(BigInt(bid.bidAmount), client.asset)} ${isWinner ? " [WINNER]" : ""}`);
     }
     console.log("-".repeat(50));
   }
 
   const auctioneer = await auction.read.owner();
   console.log(`\nAuctioneer: ${auctioneer}`);
-  console.log("\nAuctioneer should collect payment from the winner.");
+
+  const proceeds = await auction.read.proceeds();
+  if (proceeds === 0n) {
+    console.log("No proceeds to settle.");
+  } else if (auctioneer.toLowerCase() === walletClient.account.address.toLowerCase()) {
+    const { amount } = await client.withdrawProceeds(walletClient.account);
+    console.log(`Settled: ${formatAmount(amount, client.asset)} transferred to the auctioneer`);
+  } else {
+    console.log(`Auctioneer can withdraw ${formatAmount(proceeds, client.asset)} of proceeds`);
+  }
+  console.log("Bidders reclaim the rest of their deposits with: npx hardhat run scripts/refund.ts");
 }
 
 main().catch((error) => {
@@ -0,0 +1,46 @@
+import { erc20Abi, formatUnits, getContract, parseUnits, zeroAddress } from "viem";
+import type { Address } from "viem";
+import type { PublicClient } from "@nomicfoundation/hardhat-viem/types";
+
+/**
+ * What an auction is paid in. Bids, deposits, refunds and proceeds are all
+ * amounts of this asset in its smallest unit (wei for ETH).
+ */
+export interface PaymentAsset {
+  /** ERC-20 token address, or null for ETH. */
+  token: Address | null;
+  symbol: string;
+  decimals: number;
+}
+
+export const ETH: PaymentAsset = { token: null, symbol: "ETH", decimals: 18 };
+
+/**
+ * Reads the symbol and decimals of `token`, or returns ETH for the zero
+ * address that SealedBidAuction.paymentToken() reports.
+ */
+export async function loadPaymentAsset(
+  publicClient: PublicClient,
+  token: Address
+): Promise<PaymentAsset> {
+  if (token === zeroAddress) {
+    return ETH;
+  }
+
+  const erc20 = getContract({ address: token, abi: erc20Abi, client: publicClient });
+  const [symbol, decimals] = await Promise.all([
+    erc20.read.symbol(),
+    erc20.read.decimals(),
+  ]);
+  return { token, symbol, decimals };
+}
+
+/** Formats a base-unit amount for display, e.g. `1.5 USDC`. */
+export function formatAmount(amount: bigint, asset: PaymentAsset): string {
+  return `${formatUnits(amount, asset.decimals)} ${asset.symbol}`;
+}
+
+/** Parses a decimal string such as `1.5` into base units of `asset`. */
+export function parseAmount(value: string, asset: PaymentAsset): bigint {
+  return parseUnits(value, asset.decimals);
+}
@@ -0,0 +1,84 @@
+import hre from "hardhat";
+import { getAddress } from "viem";
+import { resolveAuctionAddress } from "./auction-address.js";
+import { AuctionClient } from "./auction-client.js";
+import { BidderSigners, KEYSTORES_ENV, PRIVATE_KEYS_ENV } from "./bid-signers.js";
+import { BidVault } from "./bid-vault.js";
+import { formatAmount } from "./payment-asset.js";
+
+async function main() {
+  console.log("=== Sealed Bid Auction - Refunds ===\n");
+
+  const { viem } = await hre.network.connect();
+  const auctionAddress = await resolveAuctionAddress(await viem.getPublicClient());
+  console.log(`Auction Contract: ${auctionAddress}\n`);
+
+  const signers = await BidderSigners.load(viem);
+
+  const auction = await AuctionClient.connect(viem, auctionAddress);
+
+  const phase = await auction.getPhase();
+  if (phase !== "finalized" && phase !== "cancelled") {
+    console.log("ERROR: The auction has not been finalized yet!");
+    console.log("Run: npx hardhat run scripts/finalize.ts --network localhost");
+    process.exit(1);
+  }
+
+  const publicClient = await viem.getPublicClient();
+  const vault = new BidVault(await publicClient.getChainId(), auctionAddress);
+  const bids = vault.list();
+
+  if (bids.length === 0) {
+    console.log("Error: No bids found. Run commit.ts first.");
+    return;
+  }
+
+  console.log(`Claiming refunds for ${bids.length} bids...\n`);
+
+  // Safe to re-run: bidders already refunded are skipped, not reverted on.
+  let failures = 0;
+  for (const bid of bids) {
+    const bidder = getAddress(bid.address);
+    console.log(`Bidder ${bidder}:`);
+
+    const signer = signers.find(bidder);
+    if (signer === undefined) {
+      console.log(
+        `  Skipped: no signer; add this bidder's key to ${PRIVATE_KEYS_ENV} or ${KEYSTORES_ENV}\n`
+      );
+      continue;
+    }
+
+    try {
+      const outcome = await auction.claimRefundIfDue(signer);
+      if (outcome.status === "refunded") {
+        console.log(`  Refunded: ${formatAmount(outcome.amount, auction.asset)}`);
+        console.log(`  Block: ${outcome.receipt?.blockNumber}`);
+      } else if (outcome.status === "already-refunded") {
+        console.log("  Already refunded");
+      } else {
+        console.log("  Nothing to refund");
+      }
+    } catch (error: unknown) {
+      failures++;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.log(`  Error: ${errorMessage}`);
+    }
+
+    console.log("");
+  }
+
+  console.log("========================================");
+  if (failures === 0) {
+    console.log("Refunds Complete!");
+  } else {
+    console.log(`${failures} refund(s) failed; run this script again to retry them`);
+    process.exitCode = 1;
+  }
+  console.log("========================================");
+}
+
+main().catch((error) => {
+  console.error("Error:", error.message);
+  process.exit(1);
+});
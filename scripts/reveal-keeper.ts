@@ -0,0 +1,383 @@
+import { BaseError, WaitForTransactionReceiptTimeoutError, getAddress } from "viem";
+import type { Account, Address, Hex, TransactionReceipt } from "viem";
+import type { AuctionClient, TransactionOverrides } from "./auction-client.js";
+import { AuctionError, EnforcedPauseError } from "./auction-errors.js";
+import type { BidderSigners } from "./bid-signers.js";
+import type { Bid, BidVault } from "./bid-vault.js";
+
+export interface KeeperOptions {
+  /** Accounts that can sign reveals, found by each bid's address. */
+  signers: BidderSigners;
+  /** Finalizes from this account after the reveal phase; omit to stop after revealing. */
+  finalizer?: Account;
+  /** Sends per transaction before giving up (default 5). */
+  attempts?: number;
+  /**
+   * Percent added to both fees when a transaction is replaced (default 20).
+   * Nodes reject replacements that bump by less than 10%.
+   */
+  gasBumpPercent?: bigint;
+  /** Milliseconds to wait for a receipt before replacing the transaction (default 60,000). */
+  receiptTimeout?: number;
+  /** Milliseconds between checks of the chain while waiting (default 2,000). */
+  pollInterval?: number;
+  log?: (entry: KeeperLogEntry) => void;
+}
+
+/**
+ * One step of the keeper, for structured logs. `action` and `account` (the
+ * bidder, or the finalizer) say which transaction a paused, sent, timed-out,
+ * error or done entry is about.
+ */
+export interface KeeperLogEntry {
+  time: string;
+  event: "waiting" | "paused" | "sent" | "timed-out" | "error" | "done";
+  action?: "reveal" | "finalize";
+  account?: Address;
+  [field: string]: unknown;
+}
+
+export interface KeeperTransactionResult {
+  /** Sends it took, counting replacements. */
+  attempts: number;
+  /** The transaction that was mined, or null if none was. */
+  transactionHash: Hex | null;
+  error?: string;
+}
+
+export interface KeeperRevealResult extends KeeperTransactionResult {
+  bidder: Address;
+  status: "revealed" | "already-revealed" | "not-committed" | "no-signer" | "failed";
+}
+
+export interface KeeperFinalizeResult extends KeeperTransactionResult {
+  status: "finalized" | "already-finalized" | "failed";
+}
+
+export interface KeeperSummary {
+  auction: Address;
+  /** The auction was cancelled before the keeper could finish. */
+  cancelled: boolean;
+  reveals: KeeperRevealResult[];
+  /** Null when no finalizer was given, or the auction was cancelled first. */
+  finalize: KeeperFinalizeResult | null;
+}
+
+/**
+ * Reveals every bid in the vault once the commit phase is over, then
+ * optionally finalizes once the reveal phase is over too. Phase ends are
+ * re-read while waiting, so soft-close extensions are followed.
+ *
+ * Each transaction is sent with a pinned nonce. If it is not mined within
+ * the receipt timeout, it is replaced at the same nonce with fees raised
+ * by gasBumpPercent; other RPC failures are retried after a pause. Before
+ * each retry the keeper checks whether an earlier send was mined after all.
+ * A contract revert is not retried, except for a pause: the keeper waits
+ * for the owner to unpause and then sends again, which costs no attempt.
+ *
+ * Time only moves with new blocks: on a local node that does not mine on
+ * its own, the keeper waits until something else mines one.
+ */
+export class RevealKeeper {
+  readonly auction: AuctionClient;
+  private readonly vault: BidVault;
+  private readonly signers: BidderSigners;
+  private readonly finalizer: Account | undefined;
+  private readonly attempts: number;
+  private readonly gasBumpPercent: bigint;
+  private readonly receiptTimeout: number;
+  private readonly pollInterval: number;
+  private readonly log: (entry: KeeperLogEntry) => void;
+
+  constructor(auction: AuctionClient, vault: BidVault, options: KeeperOptions) {
+    this.auction = auction;
+    this.vault = vault;
+    this.signers = options.signers;
+    this.finalizer = options.finalizer;
+    this.attempts = options.attempts ?? 5;
+    this.gasBumpPercent = options.gasBumpPercent ?? 20n;
+    this.receiptTimeout = options.receiptTimeout ?? 60_000;
+    this.pollInterval = options.pollInterval ?? 2_000;
+    this.log = options.log ?? (() => {});
+  }
+
+  async run(): Promise<KeeperSummary> {
+    const summary: KeeperSummary = {
+      auction: this.auction.address,
+      cancelled: false,
+      reveals: [],
+      finalize: null,
+    };
+
+    if (!(await this.waitUntilAfter("commitEndTime"))) {
+      return { ...summary, cancelled: true };
+    }
+    // Read the vault only now, so bids committed while waiting are included.
+    // One at a time: each reveal changes the gas the next one needs.
+    for (const bid of this.vault.list()) {
+      summary.reveals.push(await this.revealBid(bid));
+    }
+
+    if (this.finalizer === undefined) {
+      return summary;
+    }
+    if (!(await this.waitUntilAfter("revealEndTime"))) {
+      return { ...summary, cancelled: true };
+    }
+    summary.finalize = await this.finalize(this.finalizer);
+    return summary;
+  }
+
+  private async revealBid(bid: Bid): Promise<KeeperRevealResult> {
+    const bidder = getAddress(bid.address);
+    const skipped = { bidder, attempts: 0, transactionHash: null };
+
+    const signer = this.signers.find(bidder);
+    if (signer === undefined) {
+      this.emit({ event: "done", action: "reveal", account: bidder, status: "no-signer" });
+      return { ...skipped, status: "no-signer" };
+    }
+    const state = await this.auction.getBidderState(bidder);
+    if (state !== "committed") {
+      const status = state === "none" ? "not-committed" : "already-revealed";
+      this.emit({ event: "done", action: "reveal", account: bidder, status });
+      return { ...skipped, status };
+    }
+
+    const { done, ...result } = await this.send(
+      "reveal",
+      signer,
+      (overrides) =>
+        this.auction.submitReveal(
+          signer,
+          BigInt(bid.bidAmount),
+          bid.secret,
+          BigInt(bid.quantity ?? 1),
+          overrides
+        ),
+      () => this.auction.contract.read.hasRevealed([bidder], { blockTag: "latest" })
+    );
+    // Done without a mined send of ours: someone else revealed it meanwhile.
+    const status = !done
+      ? "failed"
+      : result.transactionHash === null
+        ? "already-revealed"
+        : "revealed";
+    this.emit({ event: "done", action: "reveal", account: bidder, status, ...result });
+    return { bidder, status, ...result };
+  }
+
+  private async finalize(account: Account): Promise<KeeperFinalizeResult> {
+    const finalizer = getAddress(account.address);
+    if ((await this.auction.getPhase()) === "finalized") {
+      const status = "already-finalized";
+      this.emit({ event: "done", action: "finalize", account: finalizer, status });
+      return { status, attempts: 0, transactionHash: null };
+    }
+
+    const { done, ...result } = await this.send(
+      "finalize",
+      account,
+      (overrides) => this.auction.submitFinalize(account, overrides),
+      () => this.auction.contract.read.finalized({ blockTag: "latest" })
+    );
+    const status = !done
+      ? "failed"
+      : result.transactionHash === null
+        ? "already-finalized"
+        : "finalized";
+    this.emit({ event: "done", action: "finalize", account: finalizer, status, ...result });
+    return { status, ...result };
+  }
+
+  /**
+   * Waits until the chain's latest block is past `end` and returns true, or
+   * returns false if the auction is cancelled first.
+   */
+  private async waitUntilAfter(end: "commitEndTime" | "revealEndTime"): Promise<boolean> {
+    let announced: bigint | undefined;
+    for (;;) {
+      const [phase, timeline] = await Promise.all([
+        this.auction.getPhase(),
+        this.auction.getTimeline(),
+      ]);
+      if (phase === "cancelled") return false;
+      if (phase === "finalized" || timeline.now > timeline[end]) return true;
+
+      if (announced !== timeline[end]) {
+        this.emit({ event: "waiting", until: end, timestamp: timeline[end], now: timeline.now });
+        announced = timeline[end];
+      }
+      await sleep(this.pollInterval);
+    }
+  }
+
+  /**
+   * Sends a transaction until it is mined, `landed` reports that its effect
+   * is on-chain anyway, or the attempts run out. `done` is whether the effect
+   * is on-chain; `transactionHash` is null unless one of these sends was mined.
+   * `landed` must read the latest block: a pending transaction of ours does
+   * not count.
+   */
+  private async send(
+    action: "reveal" | "finalize",
+    account: Account,
+    submit: (overrides: TransactionOverrides) => Promise<Hex>,
+    landed: () => Promise<boolean>
+  ): Promise<KeeperTransactionResult & { done: boolean }> {
+    const { publicClient } = this.auction;
+    const sender = getAddress(account.address);
+    const sent: Hex[] = [];
+    let nonce: number | undefined;
+    let gas: bigint | undefined;
+    let fees: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint } | undefined;
+    let stuck = false;
+    // Once a send has timed out it may still be mined, so its nonce stays ours.
+    let replacing = false;
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= this.attempts; attempt++) {
+      try {
+        if (attempt > 1 && (await landed())) {
+          return { done: true, attempts: attempt - 1, transactionHash: await this.findMined(sent) };
+        }
+        await this.waitWhilePaused(action, sender);
+
+        nonce ??= await publicClient.getTransactionCount({
+          address: account.address,
+          blockTag: "pending",
+        });
+        const estimate = await publicClient.estimateFeesPerGas();
+        fees =
+          fees === undefined
+            ? estimate
+            : {
+                maxFeePerGas: max(this.bump(fees.maxFeePerGas, stuck), estimate.maxFeePerGas),
+                maxPriorityFeePerGas: max(
+                  this.bump(fees.maxPriorityFeePerGas, stuck),
+                  estimate.maxPriorityFeePerGas
+                ),
+              };
+
+        const hash = await submit({ nonce, gas, ...fees });
+        sent.push(hash);
+        // Replacements keep this gas limit rather than estimating again.
+        gas ??= (await publicClient.getTransaction({ hash })).gas;
+        this.emit({
+          event: "sent",
+          action,
+          account: sender,
+          attempt,
+          transactionHash: hash,
+          nonce,
+          ...fees,
+        });
+
+        const receipt = await this.auction.wait(hash, this.receiptTimeout);
+        if (receipt.status !== "success") {
+          throw new Error(`Transaction ${hash} reverted`);
+        }
+        return { done: true, attempts: attempt, transactionHash: hash };
+      } catch (error) {
+        lastError = error;
+        stuck = error instanceof WaitForTransactionReceiptTimeoutError;
+        replacing ||= stuck;
+        if (stuck) {
+          // Replace it straight away, at the same nonce with higher fees.
+          const transactionHash = sent.at(-1);
+          this.emit({ event: "timed-out", action, account: sender, attempt, transactionHash });
+          continue;
+        }
+
+        if (error instanceof EnforcedPauseError) {
+          // Paused since the check above: wait it out and send again.
+          attempt--;
+          if (!replacing) {
+            nonce = undefined;
+            gas = undefined;
+          }
+          continue;
+        }
+
+        this.emit({ event: "error", action, account: sender, attempt, error: messageOf(error) });
+        if (error instanceof AuctionError) {
+          // The contract refused it; that only changes if an earlier send landed.
+          return (await landed())
+            ? { done: true, attempts: attempt, transactionHash: await this.findMined(sent) }
+            : { done: false, attempts: attempt, transactionHash: null, error: messageOf(error) };
+        }
+        if (!replacing) {
+          // Nothing of ours is pending: start over from the account's nonce.
+          nonce = undefined;
+          gas = undefined;
+        }
+        await sleep(this.pollInterval);
+      }
+    }
+
+    if (await landed()) {
+      return { done: true, attempts: this.attempts, transactionHash: await this.findMined(sent) };
+    }
+    return {
+      done: false,
+      attempts: this.attempts,
+      transactionHash: null,
+      error: messageOf(lastError),
+    };
+  }
+
+  /**
+   * Waits while the owner has the auction paused. Unpausing moves the phase
+   * ends back by the time paused, so the reveal window survives the wait.
+   */
+  private async waitWhilePaused(action: "reveal" | "finalize", account: Address): Promise<void> {
+    let announced = false;
+    while (await this.auction.isPaused()) {
+      if (!announced) {
+        this.emit({ event: "paused", action, account });
+        announced = true;
+      }
+      await sleep(this.pollInterval);
+    }
+  }
+
+  /** Which of the sends sharing one nonce was mined; null if none of them. */
+  private async findMined(sent: Hex[]): Promise<Hex | null> {
+    for (const hash of sent) {
+      const receipt: TransactionReceipt | undefined = await this.auction.publicClient
+        .getTransactionReceipt({ hash })
+        .catch(() => undefined);
+      if (receipt?.status === "success") return hash;
+    }
+    return null;
+  }
+
+  /** Raises a fee by gasBumpPercent when replacing a stuck transaction. */
+  private bump(fee: bigint, stuck: boolean): bigint {
+    return stuck ? fee + (fee * this.gasBumpPercent + 99n) / 100n : fee;
+  }
+
+  private emit(
+    entry: Pick<KeeperLogEntry, "event" | "action" | "account"> & Record<string, unknown>
+  ): void {
+    this.log({ time: new Date().toISOString(), ...entry });
+  }
+}
+
+function messageOf(error: unknown): string {
+  return error instanceof AuctionError
+    ? `${error.errorName}: ${error.message}`
+    : error instanceof BaseError
+      ? error.shortMessage
+      : error instanceof Error
+        ? error.message
+        : String(error);
+}
+
+function max(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -1,64 +1,86 @@
 import hre from "hardhat";
-import { formatEther } from "viem";
-import fs from "fs";
-import path from "path";
-
-const BIDS_FILE = path.join(process.cwd(), ".auction-bids.json");
-const AUCTION_ADDRESS = "0x5fbdb2315678afecb367f032d93f642f64180aa3";
-
-function loadBids() {
-  if (fs.existsSync(BIDS_FILE)) {
-    return JSON.parse(fs.readFileSync(BIDS_FILE, "utf-8"));
-  }
-  return [];
-}
+import { getAddress } from "viem";
+import type { Account } from "viem";
+import { resolveAuctionAddress } from "./auction-address.js";
+import { AuctionClient } from "./auction-client.js";
+import { BidderSigners, KEYSTORES_ENV, PRIVATE_KEYS_ENV } from "./bid-signers.js";
+import { BidVault } from "./bid-vault.js";
+import type { Bid } from "./bid-vault.js";
+import { formatAmount } from "./payment-asset.js";
 
 async function main() {
   console.log("=== Sealed Bid Auction - Reveal Phase ===\n");
 
-  console.log(`Auction Contract: ${AUCTION_ADDRESS}\n`);
-
   const { viem } = await hre.network.connect();
-  const walletClients = await viem.getWalletClients();
-  const publicClient = await viem.getPublicClient();
+  const auctionAddress = await resolveAuctionAddress(await viem.getPublicClient());
+  console.log(`Auction Contract: ${auctionAddress}\n`);
+
+  const signers = await BidderSigners.load(viem);
 
-  const auction = await viem.getContractAt("SealedBidAuction", AUCTION_ADDRESS);
+  const auction = await AuctionClient.connect(viem, auctionAddress);
 
-  const bids = loadBids();
+  const publicClient = await viem.getPublicClient();
+  const vault = new BidVault(await publicClient.getChainId(), auctionAddress);
+  const bids = vault.list();
 
   if (bids.length === 0) {
     console.log("Error: No bids found. Run commit.ts first.");
     return;
   }
 
-  const [revealEndTime, currentBlock] = await Promise.all([
-    auction.read.revealEndTime(),
-    publicClient.getBlock(),
-  ]);
+  const { now, revealEndTime } = await auction.getTimeline();
 
-  console.log(`Current Time: ${Number(currentBlock.timestamp)}`);
+  console.log(`Current Time: ${Number(now)}`);
   console.log(`Reveal Phase Ends: ${Number(revealEndTime)}`);
 
-  console.log(`\nRevealing ${bids.length} bids...\n`);
+  // Check every bid against the chain first, so no gas is spent on a reveal
+  // that would revert. Bids are matched to signers by the address they were
+  // committed from.
+  console.log(`\nChecking ${bids.length} bids...\n`);
+
+  const ready: { bid: Bid; signer: Account }[] = [];
+  let failed = false;
+  for (const bid of bids) {
+    const check = await auction.checkReveal(
+      getAddress(bid.address),
+      BigInt(bid.bidAmount),
+      bid.secret,
+      BigInt(bid.quantity ?? 1)
+    );
+    const signer = signers.find(bid.address);
+
+    let status = check.status + (check.detail === undefined ? "" : ` - ${check.detail}`);
+    if (check.status === "ok" && signer === undefined) {
+      status = `no signer - add this bidder's key to ${PRIVATE_KEYS_ENV} or ${KEYSTORES_ENV}`;
+    }
+    console.log(`  ${check.bidder}: ${status}`);
 
-  for (let i = 0; i < bids.length; i++) {
-    const bid = bids[i];
-    const wallet = walletClients[i + 1];
+    if (check.status === "ok" && signer !== undefined) {
+      ready.push({ bid, signer });
+    } else if (check.status !== "already-revealed") {
+      // Already-revealed bids need nothing more; any other problem does.
+      failed = true;
+    }
+  }
+
+  console.log(`\nRevealing ${ready.length} of ${bids.length} bids...\n`);
+
+  for (const { bid, signer } of ready) {
     const bidAmount = BigInt(bid.bidAmount);
 
-    console.log(`Bidder ${i + 1}:`);
-    console.log(`  Address: ${bid.address}`);
-    console.log(`  Bid Amount: ${formatEther(bidAmount)} ETH`);
-    console.log(`  Secret: ${bid.secret}`);
+    console.log(`Bidder ${bid.address}:`);
+    console.log(`  Bid Amount: ${formatAmount(bidAmount, auction.asset)}`);
 
     try {
-      const hash = await auction.write.revealBid([bidAmount, bid.secret], {
-        account: wallet.account,
-      });
-
-      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      const receipt = await auction.reveal(
+        signer,
+        bidAmount,
+        bid.secret,
+        BigInt(bid.quantity ?? 1)
+      );
       console.log(`  Revealed in block: ${receipt.blockNumber}`);
     } catch (error: unknown) {
+      failed = true;
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.log(`  Error: ${errorMessage}`);
     }
@@ -66,6 +88,12 @@ async function main() {
     console.log("");
   }
 
+  if (failed) {
+    console.log("Some bids could not be revealed; see the report above.");
+    process.exitCode = 1;
+    return;
+  }
+
   console.log("========================================");
   console.log("Reveal Phase Complete!");
   console.log("========================================");
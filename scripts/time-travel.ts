@@ -0,0 +1,34 @@
+import type { TestClient } from "@nomicfoundation/hardhat-viem/types";
+import type { AuctionClient } from "./auction-client.js";
+
+export interface PhaseAdvance {
+  endedPhase: "commit" | "reveal";
+  timestamp: bigint;
+}
+
+/**
+ * Mines a block one second past the end of the phase the auction is in, as
+ * the contract has it now, after any soft-close extension.
+ * Returns undefined when both phases are already over. Only works against
+ * networks that accept test RPC methods (Hardhat node, in-process EDR).
+ */
+export async function advancePastCurrentPhase(
+  auction: AuctionClient,
+  testClient: TestClient
+): Promise<PhaseAdvance | undefined> {
+  const { now, commitEndTime, revealEndTime } = await auction.getTimeline();
+
+  // Each end time is the last second of its phase, as in phaseAt().
+  let advance: PhaseAdvance;
+  if (now <= commitEndTime) {
+    advance = { endedPhase: "commit", timestamp: commitEndTime + 1n };
+  } else if (now <= revealEndTime) {
+    advance = { endedPhase: "reveal", timestamp: revealEndTime + 1n };
+  } else {
+    return undefined;
+  }
+
+  await testClient.setNextBlockTimestamp({ timestamp: advance.timestamp });
+  await testClient.mine({ blocks: 1 });
+  return advance;
+}
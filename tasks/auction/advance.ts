@@ -0,0 +1,24 @@
+import { advancePastCurrentPhase } from "../../scripts/time-travel.js";
+import { auctionAction, connectAuction, output } from "./common.js";
+import type { CommonArgs } from "./common.js";
+
+export default auctionAction<CommonArgs>(async (args, hre) => {
+  const { viem, auction } = await connectAuction(hre, args.address);
+  const testClient = await viem.getTestClient();
+
+  const advance = await advancePastCurrentPhase(auction, testClient);
+
+  output(
+    args.json,
+    {
+      auction: auction.address,
+      endedPhase: advance?.endedPhase ?? null,
+      timestamp: advance?.timestamp ?? null,
+    },
+    [
+      advance === undefined
+        ? "Both phases ended. Ready to finalize!"
+        : `Advanced past ${advance.endedPhase} phase to timestamp ${advance.timestamp}`,
+    ]
+  );
+});
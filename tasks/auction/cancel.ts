@@ -0,0 +1,28 @@
+import { auctionAction, connectAuction, output, resolveBidder } from "./common.js";
+import type { CommonArgs } from "./common.js";
+
+interface CancelArgs extends CommonArgs {
+  bidder?: string;
+}
+
+export default auctionAction<CancelArgs>(async (args, hre) => {
+  const { viem, auction } = await connectAuction(hre, args.address);
+  const wallet = await resolveBidder(viem, args.bidder ?? "0");
+
+  const receipt = await auction.cancel(wallet.account);
+
+  output(
+    args.json,
+    {
+      auction: auction.address,
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+    },
+    [
+      `Auction ${auction.address} cancelled`,
+      `  Tx Hash: ${receipt.transactionHash}`,
+      `  Block: ${receipt.blockNumber}`,
+      'Every bidder can now reclaim their deposit with "auction refund"',
+    ]
+  );
+});
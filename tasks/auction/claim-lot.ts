@@ -0,0 +1,35 @@
+import { getAddress, isAddress } from "viem";
+import { auctionAction, connectAuction, output, resolveBidder } from "./common.js";
+import type { CommonArgs } from "./common.js";
+
+interface ClaimLotArgs extends CommonArgs {
+  bidder?: string;
+  to?: string;
+}
+
+export default auctionAction<ClaimLotArgs>(async (args, hre) => {
+  const { viem, auction } = await connectAuction(hre, args.address);
+  const wallet = await resolveBidder(viem, args.bidder);
+  if (args.to !== undefined && !isAddress(args.to)) {
+    throw new Error(`Invalid --to: ${args.to}`);
+  }
+  const to = args.to === undefined ? wallet.account.address : getAddress(args.to);
+
+  const receipt = await auction.claimLot(wallet.account, to);
+
+  output(
+    args.json,
+    {
+      auction: auction.address,
+      recipient: wallet.account.address,
+      to,
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+    },
+    [
+      `Sent the lot of ${auction.address} to ${to}`,
+      `  Tx Hash: ${receipt.transactionHash}`,
+      `  Block: ${receipt.blockNumber}`,
+    ]
+  );
+});
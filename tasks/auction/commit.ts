@@ -0,0 +1,84 @@
+import { commitAndSave } from "../../scripts/bid-vault.js";
+import { deriveSecret, generateSecret } from "../../scripts/commit-reveal-utils.js";
+import { formatAmount, parseAmount } from "../../scripts/payment-asset.js";
+import {
+  auctionAction,
+  connectAuction,
+  openVault,
+  output,
+  resolveBidder,
+} from "./common.js";
+import type { CommonArgs } from "./common.js";
+
+interface CommitArgs extends CommonArgs {
+  bidder?: string;
+  amount?: string;
+  deposit?: string;
+  quantity: bigint;
+  secretFile?: string;
+  deriveSecret: boolean;
+}
+
+export default auctionAction<CommitArgs>(async (args, hre) => {
+  if (args.amount === undefined) {
+    throw new Error("Missing --amount: pass the bid in the auction's payment asset");
+  }
+
+  const { viem, auction } = await connectAuction(hre, args.address);
+  const bidAmount = parseAmount(args.amount, auction.asset);
+  if (args.quantity < 1n) {
+    throw new Error("--quantity must be at least 1");
+  }
+  const total = bidAmount * args.quantity;
+  const deposit =
+    args.deposit === undefined ? total : parseAmount(args.deposit, auction.asset);
+  if (deposit < total) {
+    throw new Error(
+      "--deposit must be at least --amount times --quantity, or the bid cannot be revealed"
+    );
+  }
+  const wallet = await resolveBidder(viem, args.bidder);
+  const bidder = wallet.account.address;
+
+  const vault = await openVault(viem, auction);
+  const secret = args.deriveSecret
+    ? await deriveSecret(wallet, auction.address)
+    : generateSecret();
+
+  // The bid is stored before the commit is sent; see commitAndSave().
+  const bidFile = args.secretFile ?? vault.fileFor(bidder);
+  const { commitment, approval, receipt } = await commitAndSave(
+    auction,
+    vault,
+    wallet.account,
+    { bidderIndex: -1, bidAmount, deposit, quantity: args.quantity, secret },
+    bidFile
+  );
+
+  output(
+    args.json,
+    {
+      auction: auction.address,
+      bidder,
+      bidAmount,
+      quantity: args.quantity,
+      deposit,
+      commitment,
+      approvalHash: approval?.transactionHash ?? null,
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+      bidFile,
+    },
+    [
+      args.quantity === 1n
+        ? `Committed ${formatAmount(bidAmount, auction.asset)} from ${bidder}`
+        : `Committed ${args.quantity} units at ${formatAmount(bidAmount, auction.asset)} from ${bidder}`,
+      `  Deposit: ${formatAmount(deposit, auction.asset)}`,
+      ...(approval ? [`  Approval Tx Hash: ${approval.transactionHash}`] : []),
+      `  Commitment: ${commitment}`,
+      `  Tx Hash: ${receipt.transactionHash}`,
+      `  Block: ${receipt.blockNumber}`,
+      `  Bid encrypted to ${bidFile}`,
+    ]
+  );
+});
@@ -0,0 +1,245 @@
+import path from "path";
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import type {
+  HardhatViemHelpers,
+  WalletClient,
+} from "@nomicfoundation/hardhat-viem/types";
+import { BaseError, getAddress, isAddress } from "viem";
+import type { Address } from "viem";
+import {
+  resolveAuctionAddress,
+  resolveFactoryAddress,
+} from "../../scripts/auction-address.js";
+import { AuctionClient, TIE_BREAKS } from "../../scripts/auction-client.js";
+import type { SoftClose, TieBreak } from "../../scripts/auction-client.js";
+import { AuctionError } from "../../scripts/auction-errors.js";
+import { AuctionRegistry } from "../../scripts/auction-registry.js";
+import { BidderSigners, parseList, signerOptionsFromEnv } from "../../scripts/bid-signers.js";
+import { BidVault } from "../../scripts/bid-vault.js";
+
+export interface OutputArgs {
+  json: boolean;
+}
+
+export interface CommonArgs extends OutputArgs {
+  address: string;
+}
+
+/** --key and --keystore, for bidders the node holds no account for. */
+export interface SignerArgs {
+  key: string;
+  keystore: string;
+}
+
+export type AuctionAction<ArgsT extends OutputArgs> = (
+  args: ArgsT,
+  hre: HardhatRuntimeEnvironment
+) => Promise<void>;
+
+/**
+ * Wraps a subcommand so failures are reported as a single line (or a JSON
+ * object with --json) and a non-zero exit code, instead of a stack trace.
+ */
+export function auctionAction<ArgsT extends OutputArgs>(
+  action: AuctionAction<ArgsT>
+): AuctionAction<ArgsT> {
+  return async (args, hre) => {
+    try {
+      await action(args, hre);
+    } catch (error) {
+      const message = describeError(error);
+
+      if (args.json) {
+        console.log(toJson({ ok: false, error: message }));
+      } else {
+        console.error(`Error: ${message}`);
+      }
+      process.exitCode = 1;
+    }
+  };
+}
+
+/** One-line description of a failure, naming the contract error if it was one. */
+export function describeError(error: unknown): string {
+  return error instanceof AuctionError
+    ? `${error.errorName}: ${error.message}`
+    : error instanceof BaseError
+      ? error.shortMessage
+      : error instanceof Error
+        ? error.message
+        : String(error);
+}
+
+/**
+ * Connects to the selected network and the auction given by --address,
+ * falling back to AUCTION_ADDRESS and then the network's Ignition deployment.
+ */
+export async function connectAuction(
+  hre: HardhatRuntimeEnvironment,
+  address: string
+): Promise<{ viem: HardhatViemHelpers; auction: AuctionClient }> {
+  const { viem } = await hre.network.connect();
+  const auctionAddress = await resolveAuctionAddress(await viem.getPublicClient(), {
+    address,
+    deploymentsDir: path.join(hre.config.paths.ignition, "deployments"),
+  });
+  const auction = await AuctionClient.connect(viem, auctionAddress);
+  return { viem, auction };
+}
+
+/**
+ * Connects to the selected network and the factory given by --factory,
+ * falling back to AUCTION_FACTORY_ADDRESS and then the network's Ignition
+ * deployment.
+ */
+export async function connectRegistry(
+  hre: HardhatRuntimeEnvironment,
+  factory: string
+): Promise<{ viem: HardhatViemHelpers; registry: AuctionRegistry }> {
+  const { viem } = await hre.network.connect();
+  const factoryAddress = await resolveFactoryAddress(await viem.getPublicClient(), {
+    address: factory,
+    deploymentsDir: path.join(hre.config.paths.ignition, "deployments"),
+  });
+  const registry = await AuctionRegistry.connect(viem, factoryAddress);
+  return { viem, registry };
+}
+
+/**
+ * Opens the encrypted bid vault for `auction` on the connected chain. Needs
+ * AUCTION_VAULT_PASSPHRASE to be set.
+ */
+export async function openVault(
+  viem: HardhatViemHelpers,
+  auction: AuctionClient
+): Promise<BidVault> {
+  const publicClient = await viem.getPublicClient();
+  return new BidVault(await publicClient.getChainId(), auction.address);
+}
+
+/**
+ * Resolves --bidder to a wallet client. Accepts either an index into the
+ * network's configured accounts or one of those accounts' addresses.
+ */
+export async function resolveBidder(
+  viem: HardhatViemHelpers,
+  bidder: string | undefined
+): Promise<WalletClient> {
+  if (bidder === undefined) {
+    throw new Error("Missing --bidder: pass an account index or address");
+  }
+
+  if (isAddress(bidder)) {
+    return viem.getWalletClient(getAddress(bidder));
+  }
+
+  const index = Number(bidder);
+  const walletClients = await viem.getWalletClients();
+  if (!Number.isInteger(index) || index < 0 || index >= walletClients.length) {
+    throw new Error(
+      `Invalid --bidder: ${bidder} (expected an address or an index below ${walletClients.length})`
+    );
+  }
+  return walletClients[index];
+}
+
+/**
+ * Resolves --bidder to an address without needing a signer for it: an
+ * address is taken as is, an index picks one of the network's accounts.
+ */
+export async function resolveBidderAddress(
+  viem: HardhatViemHelpers,
+  bidder: string | undefined
+): Promise<Address> {
+  return bidder !== undefined && isAddress(bidder)
+    ? getAddress(bidder)
+    : (await resolveBidder(viem, bidder)).account.address;
+}
+
+/**
+ * The network's accounts plus the keys from --key and --keystore and from
+ * the AUCTION_BIDDER_KEYS and AUCTION_BIDDER_KEYSTORES environment variables.
+ */
+export async function loadSigners(
+  viem: HardhatViemHelpers,
+  args: SignerArgs
+): Promise<BidderSigners> {
+  const options = signerOptionsFromEnv();
+  return BidderSigners.load(viem, {
+    ...options,
+    privateKeys: [...(options.privateKeys ?? []), ...parseList(args.key)],
+    keystores: [...(options.keystores ?? []), ...parseList(args.keystore)],
+  });
+}
+
+/** Checks an address flag's value and returns it checksummed. */
+export function parseAddress(flag: string, value: string): Address {
+  if (!isAddress(value)) {
+    throw new Error(`Invalid ${flag}: ${value}`);
+  }
+  return getAddress(value);
+}
+
+/** Checks --tie-break against the contract's policies. */
+export function parseTieBreak(value: string): TieBreak {
+  const policy = TIE_BREAKS.find((candidate) => candidate === value);
+  if (policy === undefined) {
+    throw new Error(`Invalid --tie-break: ${value} (expected ${TIE_BREAKS.join(", ")})`);
+  }
+  return policy;
+}
+
+/**
+ * Checks the --soft-close-* options against the contract's rule: all zero
+ * (no soft close), or a window and extension with a cap of at least one
+ * extension.
+ */
+export function parseSoftClose(args: {
+  softCloseWindow: bigint;
+  softCloseExtension: bigint;
+  softCloseCap: bigint;
+}): SoftClose | undefined {
+  const rule = {
+    window: args.softCloseWindow,
+    extension: args.softCloseExtension,
+    cap: args.softCloseCap,
+  };
+  if (rule.window === 0n) {
+    if (rule.extension !== 0n || rule.cap !== 0n) {
+      throw new Error("Missing --soft-close-window: required with --soft-close-extension and --soft-close-cap");
+    }
+    return undefined;
+  }
+  if (rule.extension === 0n || rule.cap < rule.extension) {
+    throw new Error(
+      "--soft-close-window needs a --soft-close-extension and a --soft-close-cap of at least that extension"
+    );
+  }
+  return rule;
+}
+
+/** One-line description of a soft close, e.g. `commits in the last 300s add 120s, up to 600s`. */
+export function describeSoftClose(rule: SoftClose): string {
+  return `commits in the last ${rule.window}s add ${rule.extension}s, up to ${rule.cap}s`;
+}
+
+export function toJson(value: unknown): string {
+  return JSON.stringify(
+    value,
+    (_, v) => (typeof v === "bigint" ? v.toString() : v),
+    2
+  );
+}
+
+/**
+ * Prints `data` as JSON when --json is set, otherwise the human-readable lines.
+ */
+export function output(json: boolean, data: object, lines: string[]): void {
+  if (json) {
+    console.log(toJson({ ok: true, ...data }));
+  } else {
+    for (const line of lines) {
+      console.log(line);
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { getAddress } from "viem";
+import { PRICING_MODES } from "../../scripts/auction-client.js";
+import { ETH, formatAmount, loadPaymentAsset, parseAmount } from "../../scripts/payment-asset.js";
+import {
+  auctionAction,
+  connectRegistry,
+  output,
+  describeSoftClose,
+  parseAddress,
+  parseSoftClose,
+  parseTieBreak,
+  resolveBidder,
+} from "./common.js";
+import type { OutputArgs } from "./common.js";
+
+interface CreateArgs extends OutputArgs {
+  factory: string;
+  bidder?: string;
+  commitDuration: bigint;
+  revealDuration: bigint;
+  paymentToken?: string;
+  pricing: string;
+  tieBreak: string;
+  units: bigint;
+  slashBounty: bigint;
+  softCloseWindow: bigint;
+  softCloseExtension: bigint;
+  softCloseCap: bigint;
+  reserve?: string;
+}
+
+export default auctionAction<CreateArgs>(async (args, hre) => {
+  const { viem, registry } = await connectRegistry(hre, args.factory);
+  const wallet = await resolveBidder(viem, args.bidder ?? "0");
+
+  const paymentToken =
+    args.paymentToken === undefined ? undefined : parseAddress("--payment-token", args.paymentToken);
+  const pricing = PRICING_MODES.find((mode) => mode === args.pricing);
+  if (pricing === undefined) {
+    throw new Error(
+      `Invalid --pricing: ${args.pricing} (expected ${PRICING_MODES.join(" or ")})`
+    );
+  }
+  const tieBreak = parseTieBreak(args.tieBreak);
+  if (args.units < 1n) {
+    throw new Error("--units must be at least 1");
+  }
+  const softClose = parseSoftClose(args);
+  const asset =
+    paymentToken === undefined
+      ? ETH
+      : await loadPaymentAsset(registry.publicClient, paymentToken);
+  const reservePrice = args.reserve === undefined ? 0n : parseAmount(args.reserve, asset);
+
+  const { auction, receipt } = await registry.create(wallet.account, {
+    commitDuration: args.commitDuration,
+    revealDuration: args.revealDuration,
+    paymentToken,
+    pricing,
+    tieBreak,
+    units: args.units,
+    reservePrice,
+    slashBounty: args.slashBounty,
+    softClose,
+  });
+  const contract = await viem.getContractAt("SealedBidAuctionBase", auction);
+  const [commitEndTime, revealEndTime] = await Promise.all([
+    contract.read.commitEndTime(),
+    contract.read.revealEndTime(),
+  ]);
+
+  output(
+    args.json,
+    {
+      auction,
+      factory: registry.address,
+      creator: getAddress(wallet.account.address),
+      paymentToken: paymentToken ?? null,
+      pricing,
+      tieBreak,
+      units: args.units,
+      reservePrice,
+      slashBounty: args.slashBounty,
+      softClose: softClose ?? null,
+      commitEndTime,
+      revealEndTime,
+      transactionHash: receipt.transactionHash,
+    },
+    [
+      `Auction created at: ${auction}`,
+      `  Factory: ${registry.address}`,
+      `  Owner: ${getAddress(wallet.account.address)}`,
+      ...(paymentToken === undefined ? [] : [`  Payment token: ${paymentToken}`]),
+      `  Pricing: ${pricing}`,
+      `  Tie-break: ${tieBreak}`,
+      ...(args.units === 1n ? [] : [`  Units: ${args.units}`]),
+      ...(args.slashBounty === 0n ? [] : [`  Slash bounty: ${args.slashBounty} bps`]),
+      ...(softClose === undefined ? [] : [`  Soft close: ${describeSoftClose(softClose)}`]),
+      ...(reservePrice === 0n ? [] : [`  Reserve: ${formatAmount(reservePrice, asset)}`]),
+      `  Commit ends at: ${commitEndTime}`,
+      `  Reveal ends at: ${revealEndTime}`,
+      `Pass --address ${auction} to the other auction commands to use it.`,
+    ]
+  );
+});
@@ -0,0 +1,249 @@
+import fs from "fs";
+import type { Address } from "viem";
+import SealedBidAuctionModule from "../../ignition/modules/SealedBidAuction.js";
+import SealedBidAuctionERC20Module from "../../ignition/modules/SealedBidAuctionERC20.js";
+import SealedBidAuctionERC20LotModule from "../../ignition/modules/SealedBidAuctionERC20Lot.js";
+import SealedBidAuctionLotModule from "../../ignition/modules/SealedBidAuctionLot.js";
+import {
+  AuctionClient,
+  LOT_KINDS,
+  PRICING_MODES,
+  describeLot,
+} from "../../scripts/auction-client.js";
+import type { LotKind } from "../../scripts/auction-client.js";
+import { AuctionError } from "../../scripts/auction-errors.js";
+import {
+  BidVault,
+  PASSPHRASE_ENV,
+  VaultPassphraseMissingError,
+} from "../../scripts/bid-vault.js";
+import type { Bid } from "../../scripts/bid-vault.js";
+import { generateSecret } from "../../scripts/commit-reveal-utils.js";
+import { ETH, formatAmount, loadPaymentAsset, parseAmount } from "../../scripts/payment-asset.js";
+import {
+  auctionAction,
+  describeSoftClose,
+  output,
+  parseAddress,
+  parseSoftClose,
+  parseTieBreak,
+} from "./common.js";
+import type { OutputArgs } from "./common.js";
+
+interface DeployArgs extends OutputArgs {
+  commitDuration: bigint;
+  revealDuration: bigint;
+  paymentToken?: string;
+  pricing: string;
+  tieBreak: string;
+  units: bigint;
+  slashBounty: bigint;
+  softCloseWindow: bigint;
+  softCloseExtension: bigint;
+  softCloseCap: bigint;
+  reserve?: string;
+  hideReserve: boolean;
+  lotKind?: string;
+  lotToken?: string;
+  lotId?: string;
+  lotAmount: bigint;
+  deploymentId?: string;
+}
+
+export default auctionAction<DeployArgs>(async (args, hre) => {
+  const { ignition, viem } = await hre.network.connect();
+
+  const paymentToken =
+    args.paymentToken === undefined ? undefined : parseAddress("--payment-token", args.paymentToken);
+  const lot = parseLot(args);
+  const pricing = PRICING_MODES.find((mode) => mode === args.pricing);
+  if (pricing === undefined) {
+    throw new Error(
+      `Invalid --pricing: ${args.pricing} (expected ${PRICING_MODES.join(" or ")})`
+    );
+  }
+
+  const tieBreak = parseTieBreak(args.tieBreak);
+  if (args.units < 1n) {
+    throw new Error("--units must be at least 1");
+  }
+  if (args.units > 1n && lot !== undefined) {
+    throw new Error("A lot goes to a single winner; it cannot be sold with --units");
+  }
+  if (args.slashBounty > 10_000n) {
+    throw new Error("--slash-bounty is in basis points and cannot exceed 10000");
+  }
+  const softClose = parseSoftClose(args);
+  if (args.hideReserve && args.reserve === undefined) {
+    throw new Error("Missing --reserve: required with --hide-reserve");
+  }
+  // The hidden reserve's secret goes into the vault; check it can be opened
+  // before deploying anything.
+  if (args.hideReserve && !process.env[PASSPHRASE_ENV]) {
+    throw new VaultPassphraseMissingError();
+  }
+  const publicClient = await viem.getPublicClient();
+  const asset =
+    paymentToken === undefined ? ETH : await loadPaymentAsset(publicClient, paymentToken);
+  const reserve = args.reserve === undefined ? 0n : parseAmount(args.reserve, asset);
+
+  const auctionParameters = {
+    commitDuration: args.commitDuration,
+    revealDuration: args.revealDuration,
+    reservePrice: args.hideReserve ? 0n : reserve,
+    units: args.units,
+    ...(paymentToken === undefined ? {} : { paymentToken }),
+  };
+  const lotParameters: Record<string, bigint | number | string> =
+    lot === undefined
+      ? {}
+      : {
+          lotKind: LOT_KINDS.indexOf(lot.kind),
+          lotToken: lot.token,
+          lotId: lot.id,
+          lotAmount: lot.amount,
+        };
+  const options = { deploymentId: args.deploymentId, displayUi: !args.json };
+
+  let sealedBidAuction;
+  if (paymentToken === undefined) {
+    const parameters = {
+      SealedBidAuction: auctionParameters,
+      SealedBidAuctionLot: lotParameters,
+    };
+    ({ sealedBidAuction } = await ignition.deploy(
+      lot === undefined ? SealedBidAuctionModule : SealedBidAuctionLotModule,
+      { parameters, ...options }
+    ));
+  } else {
+    const parameters = {
+      SealedBidAuctionERC20: auctionParameters,
+      SealedBidAuctionERC20Lot: lotParameters,
+    };
+    ({ sealedBidAuction } = await ignition.deploy(
+      lot === undefined ? SealedBidAuctionERC20Module : SealedBidAuctionERC20LotModule,
+      { parameters, ...options }
+    ));
+  }
+
+  // These must be set before the first commit, so do it straight away.
+  const [owner] = await viem.getWalletClients();
+  const auction = await AuctionClient.connect(viem, sealedBidAuction.address);
+  if (pricing !== "first-price") {
+    await auction.setPricingMode(owner.account, pricing);
+  }
+  if (tieBreak !== "earliest-commit") {
+    await auction.setTieBreak(owner.account, tieBreak);
+  }
+  if (args.slashBounty !== 0n) {
+    await auction.setSlashBounty(owner.account, args.slashBounty);
+  }
+  if (softClose !== undefined) {
+    await auction.setSoftClose(owner.account, softClose);
+  }
+  let reserveFile: string | null = null;
+  if (args.hideReserve) {
+    const vault = new BidVault(await publicClient.getChainId(), auction.address);
+    const secret = generateSecret();
+    reserveFile = vault.reserveFile;
+    const stored: Bid = {
+      bidderIndex: -1,
+      address: owner.account.address,
+      bidAmount: reserve.toString(),
+      deposit: "0",
+      secret,
+      commitment: await auction.commitmentFor(owner.account, reserve, secret),
+    };
+    // Stored before sending, as commitAndSave() does for bids: without the
+    // secret the reserve cannot be revealed and the auction ends unsold.
+    vault.writeFile(reserveFile, { ...stored, pending: true });
+    try {
+      await auction.commitReservePrice(owner.account, reserve, secret);
+    } catch (error) {
+      if (error instanceof AuctionError) fs.rmSync(reserveFile, { force: true });
+      throw error;
+    }
+    vault.writeFile(reserveFile, stored);
+  }
+
+  const [commitEndTime, revealEndTime, deployedPaymentToken] = await Promise.all([
+    sealedBidAuction.read.commitEndTime(),
+    sealedBidAuction.read.revealEndTime(),
+    sealedBidAuction.read.paymentToken(),
+  ]);
+
+  output(
+    args.json,
+    {
+      auction: sealedBidAuction.address,
+      paymentToken: deployedPaymentToken,
+      pricing,
+      tieBreak,
+      units: args.units,
+      slashBounty: args.slashBounty,
+      softClose: softClose ?? null,
+      reservePrice: reserve,
+      reserveHidden: args.hideReserve,
+      reserveFile,
+      lot: lot ?? null,
+      commitEndTime,
+      revealEndTime,
+    },
+    [
+      `SealedBidAuction deployed at: ${sealedBidAuction.address}`,
+      ...(paymentToken === undefined ? [] : [`  Payment token: ${deployedPaymentToken}`]),
+      `  Pricing: ${pricing}`,
+      `  Tie-break: ${tieBreak}`,
+      ...(args.units === 1n ? [] : [`  Units: ${args.units}`]),
+      ...(args.slashBounty === 0n ? [] : [`  Slash bounty: ${args.slashBounty} bps`]),
+      ...(softClose === undefined ? [] : [`  Soft close: ${describeSoftClose(softClose)}`]),
+      ...(reserve === 0n
+        ? []
+        : [
+            `  Reserve: ${formatAmount(reserve, asset)}${args.hideReserve ? " (hidden)" : ""}`,
+          ]),
+      ...(reserveFile === null
+        ? []
+        : [`  Reserve encrypted to ${reserveFile}; reveal it with "auction reveal-reserve"`]),
+      ...(lot === undefined
+        ? []
+        : [`  Lot: ${describeLot(lot)}`]),
+      `  Commit ends at: ${commitEndTime}`,
+      `  Reveal ends at: ${revealEndTime}`,
+    ]
+  );
+});
+
+/**
+ * Reads the --lot-* options. The lot is optional, but once --lot-token is
+ * given the kind and id are required too.
+ */
+function parseLot(
+  args: DeployArgs
+): { kind: LotKind; token: Address; id: bigint; amount: bigint } | undefined {
+  if (args.lotToken === undefined) {
+    if (args.lotKind !== undefined || args.lotId !== undefined) {
+      throw new Error("Missing --lot-token: required with --lot-kind and --lot-id");
+    }
+    return undefined;
+  }
+
+  const kind = LOT_KINDS.find(
+    (candidate) => candidate !== null && candidate.toLowerCase() === args.lotKind?.toLowerCase()
+  );
+  if (kind === undefined || kind === null) {
+    throw new Error(`Invalid --lot-kind: ${args.lotKind} (expected erc721 or erc1155)`);
+  }
+  if (args.lotId === undefined || !/^\d+$/.test(args.lotId)) {
+    throw new Error(`Invalid --lot-id: ${args.lotId} (expected the token id of the lot)`);
+  }
+  if (kind === "ERC721" && args.lotAmount !== 1n) {
+    throw new Error("--lot-amount must be 1 for an ERC-721 lot");
+  }
+  return {
+    kind,
+    token: parseAddress("--lot-token", args.lotToken),
+    id: BigInt(args.lotId),
+    amount: args.lotAmount,
+  };
+}
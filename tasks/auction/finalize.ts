@@ -0,0 +1,99 @@
+import { zeroAddress } from "viem";
+import { checkAllocation, describeTieLoss, findTieLosses } from "../../scripts/allocation.js";
+import {
+  describeLot,
+  describeLotOutcome,
+  describeReserve,
+} from "../../scripts/auction-client.js";
+import { formatAmount } from "../../scripts/payment-asset.js";
+import { auctionAction, connectAuction, output, resolveBidder } from "./common.js";
+import type { CommonArgs } from "./common.js";
+
+interface FinalizeArgs extends CommonArgs {
+  bidder?: string;
+}
+
+export default auctionAction<FinalizeArgs>(async (args, hre) => {
+  const { viem, auction } = await connectAuction(hre, args.address);
+  const wallet = await resolveBidder(viem, args.bidder ?? "0");
+
+  const receipt = await auction.finalize(wallet.account);
+  const [winner, highestBid, clearingPrice, pricing, tieBreak, units, reserve, lot, check] =
+    await Promise.all([
+      auction.contract.read.winner(),
+      auction.contract.read.highestBid(),
+      auction.contract.read.clearingPrice(),
+      auction.getPricingMode(),
+      auction.getTieBreak(),
+      auction.getUnits(),
+      auction.getReserve(),
+      auction.getLot(),
+      checkAllocation(auction),
+    ]);
+  const sold = winner !== zeroAddress;
+  const { allocations, unitsSold } = check.actual;
+  const tieLosses = findTieLosses(check.bids, check.actual);
+  if (check.mismatches.length > 0) {
+    process.exitCode = 1;
+  }
+
+  output(
+    args.json,
+    {
+      auction: auction.address,
+      sold,
+      winner,
+      highestBid,
+      pricing,
+      tieBreak,
+      tieLosses,
+      reservePrice: reserve.price,
+      reserveHidden: reserve.hidden,
+      clearingPrice,
+      units,
+      unitsSold,
+      allocations,
+      allocationMismatches: check.mismatches,
+      lot,
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+    },
+    [
+      `Auction ${auction.address} finalized in block ${receipt.blockNumber}`,
+      ...(sold
+        ? [
+            `  Winner: ${winner}`,
+            `  Highest Bid: ${formatAmount(highestBid, auction.asset)}`,
+            `  Clearing Price (${pricing}): ${formatAmount(clearingPrice, auction.asset)}`,
+            ...(units === 1n
+              ? []
+              : [
+                  `  Units Sold: ${unitsSold} of ${units}`,
+                  ...allocations.map(
+                    (allocation) =>
+                      `    ${allocation.bidder}: ${allocation.units} for ${formatAmount(allocation.payment, auction.asset)}`
+                  ),
+                ]),
+            ...tieLosses.map(
+              (loss) =>
+                `  ${describeTieLoss(loss, tieBreak, (price) => formatAmount(price, auction.asset))}`
+            ),
+          ]
+        : [
+            reserve.hidden
+              ? "  Unsold: the hidden reserve was never revealed"
+              : "  Unsold: no revealed bid met the reserve",
+          ]),
+      `  Reserve: ${describeReserve(reserve, auction.asset)}`,
+      ...(lot === null
+        ? []
+        : [`  Lot: ${describeLot(lot)}, ${describeLotOutcome(lot)}`]),
+      ...(check.mismatches.length === 0
+        ? ["  Allocation matches the off-chain computation"]
+        : [
+            "  Allocation differs from the off-chain computation:",
+            ...check.mismatches.map((mismatch) => `    ${mismatch}`),
+          ]),
+    ]
+  );
+});
@@ -0,0 +1,130 @@
+import type { HardhatViemHelpers } from "@nomicfoundation/hardhat-viem/types";
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { getAddress, isAddress } from "viem";
+import type { Address } from "viem";
+import { AuctionClient } from "../../scripts/auction-client.js";
+import { AuctionIndexer, JsonIndexStore } from "../../scripts/auction-indexer.js";
+import type { IndexedEvent } from "../../scripts/auction-indexer.js";
+import { formatAmount } from "../../scripts/payment-asset.js";
+import type { PaymentAsset } from "../../scripts/payment-asset.js";
+import {
+  auctionAction,
+  connectAuction,
+  connectRegistry,
+  describeError,
+  output,
+  resolveBidder,
+  toJson,
+} from "./common.js";
+import type { CommonArgs } from "./common.js";
+
+interface HistoryArgs extends CommonArgs {
+  factory?: string;
+  bidder?: string;
+  fromBlock: bigint;
+  store?: string;
+  watch: boolean;
+}
+
+export default auctionAction<HistoryArgs>(async (args, hre) => {
+  const { viem, auctions } = await connectAuctions(hre, args);
+  // Any address has a timeline; an index picks one of the network's accounts.
+  const bidder =
+    args.bidder === undefined
+      ? undefined
+      : isAddress(args.bidder)
+        ? getAddress(args.bidder)
+        : (await resolveBidder(viem, args.bidder)).account.address;
+
+  const indexer = await AuctionIndexer.connect(viem, {
+    fromBlock: args.fromBlock,
+    ...(args.store === undefined ? {} : { store: new JsonIndexStore(args.store) }),
+  });
+  const { added, removed, blockNumber } = await indexer.sync(auctions);
+
+  // Amounts are printed in each auction's own payment asset.
+  const assets = new Map<Address, PaymentAsset>();
+  const describeEvents = async (events: IndexedEvent[]) => {
+    for (const event of events) {
+      if (!assets.has(event.auction)) {
+        assets.set(event.auction, (await AuctionClient.connect(viem, event.auction)).asset);
+      }
+    }
+    return events.map((event) => describeEvent(event, assets.get(event.auction)!));
+  };
+
+  const timeline = bidder === undefined ? null : indexer.timelineFor(bidder);
+  const rates = indexer.revealRates().filter((rate) => auctions.includes(rate.auction));
+  output(
+    args.json,
+    { blockNumber, added: added.length, removed: removed.length, timeline, revealRates: rates },
+    [
+      `Indexed ${auctions.length} auction(s) up to block ${blockNumber}: ` +
+        `${added.length} new event(s)` +
+        (removed.length === 0 ? "" : `, ${removed.length} dropped after a reorg`),
+      ...(timeline === null
+        ? rates.map(
+            (rate) =>
+              `  ${rate.auction}  ${rate.revealed}/${rate.committed} revealed` +
+              (rate.rate === null ? "" : ` (${Math.round(rate.rate * 100)}%)`)
+          )
+        : timeline.length === 0
+          ? [`No events for ${bidder}`]
+          : [`Timeline for ${bidder}:`, ...(await describeEvents(timeline))]),
+    ]
+  );
+
+  if (!args.watch) return;
+
+  // Follow new blocks until interrupted, printing each event as it is indexed.
+  if (!args.json) console.log("Watching for new events (Ctrl+C to stop)...");
+  await new Promise<void>((resolve) => {
+    const unwatch = indexer.watch(auctions, {
+      onSync: async (result) => {
+        const events = result.added.filter(
+          (event) => bidder === undefined || event.account === bidder
+        );
+        if (events.length === 0 && result.removed.length === 0) return;
+        if (args.json) {
+          console.log(toJson({ blockNumber: result.blockNumber, added: events, removed: result.removed }));
+          return;
+        }
+        for (const event of result.removed) {
+          console.log(`  Dropped after a reorg: ${event.eventName} in ${event.transactionHash}`);
+        }
+        for (const line of await describeEvents(events)) {
+          console.log(line);
+        }
+      },
+      onError: (error) => console.error(`Error: ${describeError(error)}`),
+    });
+    process.once("SIGINT", () => {
+      unwatch();
+      resolve();
+    });
+  });
+});
+
+/** The auction given by --address, or every auction of --factory. */
+async function connectAuctions(
+  hre: HardhatRuntimeEnvironment,
+  args: HistoryArgs
+): Promise<{ viem: HardhatViemHelpers; auctions: Address[] }> {
+  if (args.factory === undefined) {
+    const { viem, auction } = await connectAuction(hre, args.address);
+    return { viem, auctions: [auction.address] };
+  }
+  const { viem, registry } = await connectRegistry(hre, args.factory);
+  return { viem, auctions: [...(await registry.factory.read.getAuctions())] };
+}
+
+function describeEvent(event: IndexedEvent, asset: PaymentAsset): string {
+  const amount = formatAmount(event.amount, asset);
+  const subject =
+    event.eventName === "AuctionCancelled"
+      ? "cancelled"
+      : event.eventName === "AuctionFinalized"
+        ? `winner ${event.account}, ${amount}`
+        : `${event.account}, ${amount}`;
+  return `  block ${event.blockNumber}  ${event.auction}  ${event.eventName}: ${subject}`;
+}
@@ -0,0 +1,517 @@
+import { emptyTask, task } from "hardhat/config";
+import { ArgumentType } from "hardhat/types/arguments";
+
+const ADDRESS_OPTION = {
+  name: "address",
+  description:
+    "Address of the deployed SealedBidAuction (defaults to AUCTION_ADDRESS, then the network's Ignition deployment)",
+  defaultValue: "",
+} as const;
+
+const FACTORY_OPTION = {
+  name: "factory",
+  description:
+    "Address of the AuctionFactory (defaults to AUCTION_FACTORY_ADDRESS, then the network's Ignition deployment)",
+  defaultValue: "",
+} as const;
+
+const BIDDER_OPTION = {
+  name: "bidder",
+  description: "Bidder account, as an index into the network accounts or an address",
+  type: ArgumentType.STRING_WITHOUT_DEFAULT,
+  defaultValue: undefined,
+} as const;
+
+const AMOUNT_OPTION = {
+  name: "amount",
+  description: "Bid amount in the payment asset (ETH or the token), e.g. 1.5",
+  type: ArgumentType.STRING_WITHOUT_DEFAULT,
+  defaultValue: undefined,
+} as const;
+
+const QUANTITY_OPTION = {
+  name: "quantity",
+  description: "Units wanted in a multi-unit auction; --amount is then the price per unit",
+  type: ArgumentType.BIGINT,
+  defaultValue: 1n,
+} as const;
+
+const SECRET_FILE_OPTION = {
+  name: "secretFile",
+  description:
+    "Encrypted bid file to write on commit or read on reveal (defaults to the bidder's file in .auction-vault)",
+  type: ArgumentType.STRING_WITHOUT_DEFAULT,
+  defaultValue: undefined,
+} as const;
+
+const DERIVE_SECRET_FLAG = {
+  name: "deriveSecret",
+  description:
+    "Derive the secret from the bidder's signature over (chainId, auction, bidder) so it can be regenerated",
+} as const;
+
+const KEY_OPTION = {
+  name: "key",
+  description:
+    "Comma-separated private keys of bidders the node has no account for (added to AUCTION_BIDDER_KEYS)",
+  defaultValue: "",
+} as const;
+
+const KEYSTORE_OPTION = {
+  name: "keystore",
+  description:
+    "Comma-separated keystore files of bidders the node has no account for (added to AUCTION_BIDDER_KEYSTORES; password from AUCTION_KEYSTORE_PASSWORD)",
+  defaultValue: "",
+} as const;
+
+const SOFT_CLOSE_WINDOW_OPTION = {
+  name: "softCloseWindow",
+  description:
+    "Soft close: a commit less than this many seconds before the commit phase ends extends both phases (defaults to 0: off)",
+  type: ArgumentType.BIGINT,
+  defaultValue: 0n,
+} as const;
+
+const SOFT_CLOSE_EXTENSION_OPTION = {
+  name: "softCloseExtension",
+  description: "Seconds each late commit adds under --soft-close-window",
+  type: ArgumentType.BIGINT,
+  defaultValue: 0n,
+} as const;
+
+const SOFT_CLOSE_CAP_OPTION = {
+  name: "softCloseCap",
+  description: "Most seconds the soft close can add in all",
+  type: ArgumentType.BIGINT,
+  defaultValue: 0n,
+} as const;
+
+const JSON_FLAG = {
+  name: "json",
+  description: "Print machine-readable JSON instead of text",
+} as const;
+
+export const auctionTasks = [
+  emptyTask("auction", "Operate a SealedBidAuction deployment").build(),
+
+  task(["auction", "deploy"], "Deploy a new SealedBidAuction through Ignition")
+    .addOption({
+      name: "paymentToken",
+      description: "ERC-20 token to take bids in (deploys SealedBidAuctionERC20; defaults to ETH)",
+      type: ArgumentType.STRING_WITHOUT_DEFAULT,
+      defaultValue: undefined,
+    })
+    .addOption({
+      name: "commitDuration",
+      description: "Commit phase duration in seconds",
+      type: ArgumentType.BIGINT,
+      defaultValue: 7n * 24n * 60n * 60n,
+    })
+    .addOption({
+      name: "revealDuration",
+      description: "Reveal phase duration in seconds",
+      type: ArgumentType.BIGINT,
+      defaultValue: 3n * 24n * 60n * 60n,
+    })
+    .addOption({
+      name: "pricing",
+      description:
+        "What winners pay per unit: first-price (their bid), second-price (the highest losing bid) or uniform (the lowest winning bid)",
+      defaultValue: "first-price",
+    })
+    .addOption({
+      name: "tieBreak",
+      description:
+        "Who wins between equal prices: earliest-commit, earliest-reveal or random (a draw seeded by the commitments)",
+      defaultValue: "earliest-commit",
+    })
+    .addOption({
+      name: "units",
+      description: "Identical units for sale; bids then carry a quantity",
+      type: ArgumentType.BIGINT,
+      defaultValue: 1n,
+    })
+    .addOption({
+      name: "slashBounty",
+      description:
+        "Share of a non-revealer's forfeited deposit paid to whoever slashes it, in basis points (defaults to 0: all to the owner)",
+      type: ArgumentType.BIGINT,
+      defaultValue: 0n,
+    })
+    .addOption(SOFT_CLOSE_WINDOW_OPTION)
+    .addOption(SOFT_CLOSE_EXTENSION_OPTION)
+    .addOption(SOFT_CLOSE_CAP_OPTION)
+    .addOption({
+      name: "reserve",
+      description: "Reserve price in the payment asset; lower bids cannot win (defaults to none)",
+      type: ArgumentType.STRING_WITHOUT_DEFAULT,
+      defaultValue: undefined,
+    })
+    .addFlag({
+      name: "hideReserve",
+      description: "Commit to --reserve instead of publishing it; reveal it later with reveal-reserve",
+    })
+    .addOption({
+      name: "lotKind",
+      description: "Kind of NFT lot to escrow: erc721 or erc1155 (with --lot-token)",
+      type: ArgumentType.STRING_WITHOUT_DEFAULT,
+      defaultValue: undefined,
+    })
+    .addOption({
+      name: "lotToken",
+      description: "NFT contract of the lot, owned by the deployer; the auction sells nothing on-chain without it",
+      type: ArgumentType.STRING_WITHOUT_DEFAULT,
+      defaultValue: undefined,
+    })
+    .addOption({
+      name: "lotId",
+      description: "Token id of the lot",
+      type: ArgumentType.STRING_WITHOUT_DEFAULT,
+      defaultValue: undefined,
+    })
+    .addOption({
+      name: "lotAmount",
+      description: "Number of ERC-1155 tokens in the lot",
+      type: ArgumentType.BIGINT,
+      defaultValue: 1n,
+    })
+    .addOption({
+      name: "deploymentId",
+      description: "Ignition deployment id (defaults to chain-<chainId>)",
+      type: ArgumentType.STRING_WITHOUT_DEFAULT,
+      defaultValue: undefined,
+    })
+    .addFlag(JSON_FLAG)
+    .setAction(() => import("./deploy.js"))
+    .build(),
+
+  task(["auction", "create"], "Create an auction through the AuctionFactory")
+    .addOption(FACTORY_OPTION)
+    .addOption({
+      ...BIDDER_OPTION,
+      description: "Account creating and owning the auction (defaults to account 0)",
+    })
+    .addOption({
+      name: "paymentToken",
+      description: "ERC-20 token to take bids in (defaults to ETH)",
+      type: ArgumentType.STRING_WITHOUT_DEFAULT,
+      defaultValue: undefined,
+    })
+    .addOption({
+      name: "commitDuration",
+      description: "Commit phase duration in seconds",
+      type: ArgumentType.BIGINT,
+      defaultValue: 7n * 24n * 60n * 60n,
+    })
+    .addOption({
+      name: "revealDuration",
+      description: "Reveal phase duration in seconds",
+      type: ArgumentType.BIGINT,
+      defaultValue: 3n * 24n * 60n * 60n,
+    })
+    .addOption({
+      name: "pricing",
+      description: "What winners pay per unit: first-price, second-price or uniform",
+      defaultValue: "first-price",
+    })
+    .addOption({
+      name: "tieBreak",
+      description:
+        "Who wins between equal prices: earliest-commit, earliest-reveal or random (a draw seeded by the commitments)",
+      defaultValue: "earliest-commit",
+    })
+    .addOption({
+      name: "units",
+      description: "Identical units for sale; bids then carry a quantity",
+      type: ArgumentType.BIGINT,
+      defaultValue: 1n,
+    })
+    .addOption({
+      name: "slashBounty",
+      description:
+        "Share of a non-revealer's forfeited deposit paid to whoever slashes it, in basis points (defaults to 0: all to the owner)",
+      type: ArgumentType.BIGINT,
+      defaultValue: 0n,
+    })
+    .addOption(SOFT_CLOSE_WINDOW_OPTION)
+    .addOption(SOFT_CLOSE_EXTENSION_OPTION)
+    .addOption(SOFT_CLOSE_CAP_OPTION)
+    .addOption({
+      name: "reserve",
+      description: "Public reserve price in the payment asset (defaults to none)",
+      type: ArgumentType.STRING_WITHOUT_DEFAULT,
+      defaultValue: undefined,
+    })
+    .addFlag(JSON_FLAG)
+    .setAction(() => import("./create.js"))
+    .build(),
+
+  task(["auction", "list"], "List the auctions registered in the AuctionFactory")
+    .addOption(FACTORY_OPTION)
+    .addOption({
+      name: "creator",
+      description: "Only auctions created by this address",
+      type: ArgumentType.STRING_WITHOUT_DEFAULT,
+      defaultValue: undefined,
+    })
+    .addOption({
+      name: "phase",
+      description: "Only auctions in this phase: commit, reveal, ended, finalized or cancelled",
+      type: ArgumentType.STRING_WITHOUT_DEFAULT,
+      defaultValue: undefined,
+    })
+    .addFlag(JSON_FLAG)
+    .setAction(() => import("./list.js"))
+    .build(),
+
+  task(["auction", "commit"], "Commit a sealed bid for one bidder")
+    .addOption(ADDRESS_OPTION)
+    .addOption(BIDDER_OPTION)
+    .addOption(AMOUNT_OPTION)
+    .addOption({
+      name: "deposit",
+      description:
+        "Amount to escrow with the bid, at least --amount times --quantity (defaults to that)",
+      type: ArgumentType.STRING_WITHOUT_DEFAULT,
+      defaultValue: undefined,
+    })
+    .addOption(QUANTITY_OPTION)
+    .addOption(SECRET_FILE_OPTION)
+    .addFlag(DERIVE_SECRET_FLAG)
+    .addFlag(JSON_FLAG)
+    .setAction(() => import("./commit.js"))
+    .build(),
+
+  task(["auction", "reveal"], "Reveal a previously committed bid")
+    .addOption(ADDRESS_OPTION)
+    .addOption({
+      ...BIDDER_OPTION,
+      description:
+        "Bidder whose bid to reveal, as an index into the network accounts or an address (optional with --secret-file)",
+    })
+    .addOption({
+      ...AMOUNT_OPTION,
+      description: "Bid amount in the payment asset (only with --derive-secret)",
+    })
+    .addOption({
+      ...QUANTITY_OPTION,
+      description: "Units bid for (only with --derive-secret)",
+    })
+    .addOption(SECRET_FILE_OPTION)
+    .addFlag({
+      ...DERIVE_SECRET_FLAG,
+      description: "Re-derive the secret from the bidder's signature instead of reading the vault",
+    })
+    .addOption(KEY_OPTION)
+    .addOption(KEYSTORE_OPTION)
+    .addFlag(JSON_FLAG)
+    .setAction(() => import("./reveal.js"))
+    .build(),
+
+  task(["auction", "finalize"], "Finalize the auction after the reveal phase")
+    .addOption(ADDRESS_OPTION)
+    .addOption({
+      ...BIDDER_OPTION,
+      description: "Account sending the transaction (defaults to account 0)",
+    })
+    .addFlag(JSON_FLAG)
+    .setAction(() => import("./finalize.js"))
+    .build(),
+
+  task(["auction", "keeper"], "Reveal every vault bid once the commit phase ends, then optionally finalize")
+    .addOption(ADDRESS_OPTION)
+    .addFlag({
+      name: "finalize",
+      description: "Finalize the auction once the reveal phase ends",
+    })
+    .addOption({
+      ...BIDDER_OPTION,
+      description: "Account that finalizes with --finalize (defaults to account 0)",
+    })
+    .addOption({
+      name: "attempts",
+      description: "Sends per transaction, counting replacements, before giving up",
+      type: ArgumentType.BIGINT,
+      defaultValue: 5n,
+    })
+    .addOption({
+      name: "gasBump",
+      description: "Percent added to the fees each time a stuck transaction is replaced (at least 10)",
+      type: ArgumentType.BIGINT,
+      defaultValue: 20n,
+    })
+    .addOption({
+      name: "receiptTimeout",
+      description: "Seconds to wait for a transaction to be mined before replacing it",
+      type: ArgumentType.BIGINT,
+      defaultValue: 60n,
+    })
+    .addOption({
+      name: "pollInterval",
+      description: "Seconds between checks of the chain while waiting for a phase to end",
+      type: ArgumentType.BIGINT,
+      defaultValue: 2n,
+    })
+    .addOption(KEY_OPTION)
+    .addOption(KEYSTORE_OPTION)
+    .addFlag(JSON_FLAG)
+    .setAction(() => import("./keeper.js"))
+    .build(),
+
+  task(["auction", "status"], "Show the phase, timeline and bid counts")
+    .addOption(ADDRESS_OPTION)
+    .addFlag({
+      name: "watch",
+      description: "Refresh on every new block, with countdowns to the end of each phase",
+    })
+    .addFlag(JSON_FLAG)
+    .setAction(() => import("./status.js"))
+    .build(),
+
+  task(["auction", "history"], "Index the auction's events and show reveal rates or a bidder's timeline")
+    .addOption(ADDRESS_OPTION)
+    .addOption({
+      name: "factory",
+      description: "Index every auction of this AuctionFactory instead of a single auction",
+      type: ArgumentType.STRING_WITHOUT_DEFAULT,
+      defaultValue: undefined,
+    })
+    .addOption({
+      name: "bidder",
+      description: "Show this bidder's timeline across the indexed auctions, as an account index or any address",
+      type: ArgumentType.STRING_WITHOUT_DEFAULT,
+      defaultValue: undefined,
+    })
+    .addOption({
+      name: "fromBlock",
+      description: "First block to read for auctions not indexed yet",
+      type: ArgumentType.BIGINT,
+      defaultValue: 0n,
+    })
+    .addOption({
+      name: "store",
+      description: "Index file to read and update (defaults to .auction-index/<chainId>.json)",
+      type: ArgumentType.STRING_WITHOUT_DEFAULT,
+      defaultValue: undefined,
+    })
+    .addFlag({
+      name: "watch",
+      description: "Keep following new blocks and print events as they are indexed",
+    })
+    .addFlag(JSON_FLAG)
+    .setAction(() => import("./history.js"))
+    .build(),
+
+  task(["auction", "refund"], "Claim back what is left of a bidder's deposit")
+    .addOption(ADDRESS_OPTION)
+    .addOption(BIDDER_OPTION)
+    .addFlag({
+      name: "all",
+      description:
+        "Claim for every bidder in the bid vault that has a signer (a node account, --key or --keystore); already refunded bidders are skipped",
+    })
+    .addOption(KEY_OPTION)
+    .addOption(KEYSTORE_OPTION)
+    .addFlag(JSON_FLAG)
+    .setAction(() => import("./refund.js"))
+    .build(),
+
+  task(["auction", "withdraw"], "Send the winning bid to the owner")
+    .addOption(ADDRESS_OPTION)
+    .addOption({
+      ...BIDDER_OPTION,
+      description: "Owner account sending the transaction (defaults to account 0)",
+    })
+    .addFlag(JSON_FLAG)
+    .setAction(() => import("./withdraw.js"))
+    .build(),
+
+  task(["auction", "cancel"], "Call the auction off before finalization and make every deposit refundable")
+    .addOption(ADDRESS_OPTION)
+    .addOption({
+      ...BIDDER_OPTION,
+      description: "Owner account sending the transaction (defaults to account 0)",
+    })
+    .addFlag(JSON_FLAG)
+    .setAction(() => import("./cancel.js"))
+    .build(),
+
+  task(["auction", "pause"], "Stop commits, reveals, finalization and slashing until the owner unpauses")
+    .addOption(ADDRESS_OPTION)
+    .addOption({
+      ...BIDDER_OPTION,
+      description: "Owner account sending the transaction (defaults to account 0)",
+    })
+    .addFlag(JSON_FLAG)
+    .setAction(() => import("./pause.js"))
+    .build(),
+
+  task(["auction", "unpause"], "Resume the auction after a pause, moving the phase ends back by the time paused")
+    .addOption(ADDRESS_OPTION)
+    .addOption({
+      ...BIDDER_OPTION,
+      description: "Owner account sending the transaction (defaults to account 0)",
+    })
+    .addFlag(JSON_FLAG)
+    .setAction(() => import("./unpause.js"))
+    .build(),
+
+  task(["auction", "non-revealers"], "List committers who did not reveal and what they forfeited")
+    .addOption(ADDRESS_OPTION)
+    .addFlag({
+      name: "slash",
+      description: "Forfeit the deposits still held for them (after the reveal phase)",
+    })
+    .addOption({
+      ...BIDDER_OPTION,
+      description: "Account sending the slash and receiving any bounty (defaults to account 0)",
+    })
+    .addFlag(JSON_FLAG)
+    .setAction(() => import("./non-revealers.js"))
+    .build(),
+
+  task(["auction", "reveal-reserve"], "Reveal the hidden reserve price stored at deployment")
+    .addOption(ADDRESS_OPTION)
+    .addOption({
+      ...BIDDER_OPTION,
+      description: "Owner account sending the transaction (defaults to account 0)",
+    })
+    .addFlag(JSON_FLAG)
+    .setAction(() => import("./reveal-reserve.js"))
+    .build(),
+
+  task(["auction", "claim-lot"], "Collect a lot that finalization could not deliver")
+    .addOption(ADDRESS_OPTION)
+    .addOption(BIDDER_OPTION)
+    .addOption({
+      name: "to",
+      description: "Address to send the lot to (defaults to the bidder)",
+      type: ArgumentType.STRING_WITHOUT_DEFAULT,
+      defaultValue: undefined,
+    })
+    .addFlag(JSON_FLAG)
+    .setAction(() => import("./claim-lot.js"))
+    .build(),
+
+  task(["auction", "migrate-bids"], "Encrypt a plaintext bids file into the vault")
+    .addOption(ADDRESS_OPTION)
+    .addOption({
+      name: "file",
+      description: "Plaintext bids file to migrate (defaults to .auction-bids.json)",
+      type: ArgumentType.STRING_WITHOUT_DEFAULT,
+      defaultValue: undefined,
+    })
+    .addFlag({
+      name: "keepPlaintext",
+      description: "Keep the plaintext file after migrating",
+    })
+    .addFlag(JSON_FLAG)
+    .setAction(() => import("./migrate-bids.js"))
+    .build(),
+
+  task(["auction", "advance"], "Mine a block past the current phase (local networks only)")
+    .addOption(ADDRESS_OPTION)
+    .addFlag(JSON_FLAG)
+    .setAction(() => import("./advance.js"))
+    .build(),
+];
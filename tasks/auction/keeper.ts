@@ -0,0 +1,91 @@
+import { RevealKeeper } from "../../scripts/reveal-keeper.js";
+import type { KeeperLogEntry, KeeperSummary } from "../../scripts/reveal-keeper.js";
+import {
+  auctionAction,
+  connectAuction,
+  loadSigners,
+  openVault,
+  output,
+  resolveBidder,
+} from "./common.js";
+import type { CommonArgs, SignerArgs } from "./common.js";
+
+interface KeeperArgs extends CommonArgs, SignerArgs {
+  finalize: boolean;
+  bidder?: string;
+  attempts: bigint;
+  gasBump: bigint;
+  receiptTimeout: bigint;
+  pollInterval: bigint;
+}
+
+export default auctionAction<KeeperArgs>(async (args, hre) => {
+  if (args.attempts < 1n) {
+    throw new Error("--attempts must be at least 1");
+  }
+  if (args.gasBump < 10n) {
+    throw new Error("--gas-bump must be at least 10: nodes reject smaller replacements");
+  }
+
+  const { viem, auction } = await connectAuction(hre, args.address);
+  const vault = await openVault(viem, auction);
+  const finalizer = args.finalize
+    ? (await resolveBidder(viem, args.bidder ?? "0")).account
+    : undefined;
+
+  const keeper = new RevealKeeper(auction, vault, {
+    signers: await loadSigners(viem, args),
+    finalizer,
+    attempts: Number(args.attempts),
+    gasBumpPercent: args.gasBump,
+    receiptTimeout: Number(args.receiptTimeout) * 1000,
+    pollInterval: Number(args.pollInterval) * 1000,
+    // With --json, one compact JSON object per line.
+    log: (entry) =>
+      console.log(args.json ? JSON.stringify(entry, replacer) : describeEntry(entry)),
+  });
+  const summary = await keeper.run();
+
+  output(args.json, summary, describeSummary(summary));
+  const failed =
+    summary.reveals.some((reveal) => reveal.status === "failed") ||
+    summary.finalize?.status === "failed";
+  if (failed) process.exitCode = 1;
+});
+
+/** One log line, e.g. `12:00:01 sent reveal 0x... attempt=1 transactionHash=0x...`. */
+function describeEntry({ time, event, action, account, ...fields }: KeeperLogEntry): string {
+  const details = Object.entries(fields).map(([key, value]) => `${key}=${value}`);
+  return [time.slice(11, 19), event, action, account, ...details]
+    .filter((part) => part !== undefined)
+    .join(" ");
+}
+
+function describeSummary(summary: KeeperSummary): string[] {
+  const count = (status: string) =>
+    summary.reveals.filter((reveal) => reveal.status === status).length;
+  return [
+    `Keeper finished for ${summary.auction}${summary.cancelled ? " (auction cancelled)" : ""}`,
+    `  Revealed: ${count("revealed")}`,
+    `  Already revealed: ${count("already-revealed")}`,
+    `  Not committed: ${count("not-committed")}`,
+    `  No signer: ${count("no-signer")}`,
+    `  Failed: ${count("failed")}`,
+    ...summary.reveals
+      .filter((reveal) => reveal.status === "failed")
+      .map((reveal) => `    ${reveal.bidder}: ${reveal.error}`),
+    ...(summary.finalize === null
+      ? []
+      : [
+          `  Finalize: ${summary.finalize.status}` +
+            (summary.finalize.transactionHash === null
+              ? ""
+              : ` in ${summary.finalize.transactionHash}`) +
+            (summary.finalize.error === undefined ? "" : ` (${summary.finalize.error})`),
+        ]),
+  ];
+}
+
+function replacer(_: string, value: unknown) {
+  return typeof value === "bigint" ? value.toString() : value;
+}
@@ -0,0 +1,44 @@
+import { zeroAddress } from "viem";
+import { AUCTION_PHASES } from "../../scripts/auction-client.js";
+import type { AuctionFilter } from "../../scripts/auction-registry.js";
+import { auctionAction, connectRegistry, output, parseAddress } from "./common.js";
+import type { OutputArgs } from "./common.js";
+
+interface ListArgs extends OutputArgs {
+  factory: string;
+  creator?: string;
+  phase?: string;
+}
+
+export default auctionAction<ListArgs>(async (args, hre) => {
+  const { registry } = await connectRegistry(hre, args.factory);
+
+  const filter: AuctionFilter = {};
+  if (args.creator !== undefined) {
+    filter.creator = parseAddress("--creator", args.creator);
+  }
+  if (args.phase !== undefined) {
+    filter.phase = AUCTION_PHASES.find((phase) => phase === args.phase);
+    if (filter.phase === undefined) {
+      throw new Error(`Invalid --phase: ${args.phase} (expected ${AUCTION_PHASES.join(", ")})`);
+    }
+  }
+
+  const auctions = await registry.list(filter);
+  output(
+    args.json,
+    { factory: registry.address, auctions },
+    auctions.length === 0
+      ? [`No auctions found in factory ${registry.address}`]
+      : [
+          `${auctions.length} auction(s) in factory ${registry.address}:`,
+          ...auctions.map(
+            (listing) =>
+              `  ${listing.address}  ${listing.phase.padEnd(9)}  creator ${listing.creator}` +
+              (listing.paymentToken === zeroAddress
+                ? ""
+                : `  token ${listing.paymentToken}`)
+          ),
+        ]
+  );
+});
@@ -0,0 +1,32 @@
+import { PLAINTEXT_BIDS_FILE, migratePlaintextBids } from "../../scripts/bid-vault.js";
+import { auctionAction, connectAuction, openVault, output } from "./common.js";
+import type { CommonArgs } from "./common.js";
+
+interface MigrateBidsArgs extends CommonArgs {
+  file?: string;
+  keepPlaintext: boolean;
+}
+
+export default auctionAction<MigrateBidsArgs>(async (args, hre) => {
+  const { viem, auction } = await connectAuction(hre, args.address);
+  const vault = await openVault(viem, auction);
+  const file = args.file ?? PLAINTEXT_BIDS_FILE;
+
+  const bids = migratePlaintextBids(vault, file, args.keepPlaintext);
+
+  output(
+    args.json,
+    {
+      auction: auction.address,
+      migrated: bids.map((bid) => bid.address),
+      vaultDir: vault.dir,
+      plaintextRemoved: !args.keepPlaintext,
+    },
+    [
+      `Encrypted ${bids.length} bid(s) from ${file} into ${vault.dir}`,
+      args.keepPlaintext
+        ? `  ${file} was kept; delete it once you have checked the vault`
+        : `  Removed ${file}`,
+    ]
+  );
+});
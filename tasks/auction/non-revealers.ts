@@ -0,0 +1,60 @@
+import { formatAmount } from "../../scripts/payment-asset.js";
+import { auctionAction, connectAuction, output, resolveBidder } from "./common.js";
+import type { CommonArgs } from "./common.js";
+
+interface NonRevealersArgs extends CommonArgs {
+  bidder?: string;
+  slash: boolean;
+}
+
+export default auctionAction<NonRevealersArgs>(async (args, hre) => {
+  const { viem, auction } = await connectAuction(hre, args.address);
+
+  const phase = await auction.getPhase();
+  let nonRevealers = await auction.getNonRevealers();
+  const pending = nonRevealers.filter(({ deposit }) => deposit > 0n).map(({ bidder }) => bidder);
+
+  let slash = null;
+  if (args.slash && pending.length > 0) {
+    const wallet = await resolveBidder(viem, args.bidder ?? "0");
+    slash = await auction.slashNonRevealers(wallet.account, [...pending]);
+    nonRevealers = await auction.getNonRevealers();
+  }
+  const format = (amount: bigint) => formatAmount(amount, auction.asset);
+  const forfeited = nonRevealers.reduce((sum, { forfeited }) => sum + forfeited, 0n);
+  const bounty = slash?.slashed.reduce((sum, { bounty }) => sum + bounty, 0n) ?? 0n;
+  const canSlash = phase === "ended" || phase === "finalized";
+
+  output(
+    args.json,
+    {
+      auction: auction.address,
+      phase,
+      nonRevealers,
+      forfeited,
+      slashed: slash?.slashed ?? [],
+      transactionHash: slash?.receipt.transactionHash ?? null,
+    },
+    [
+      nonRevealers.length === 0
+        ? `Every committer of ${auction.address} revealed`
+        : `${nonRevealers.length} committer(s) of ${auction.address} did not reveal:`,
+      ...nonRevealers.map(({ bidder, deposit, forfeited }) =>
+        forfeited > 0n
+          ? `  ${bidder}: forfeited ${format(forfeited)}`
+          : `  ${bidder}: ${format(deposit)} ${canSlash ? "can be slashed" : "at stake"}`
+      ),
+      ...(forfeited === 0n ? [] : [`  Total forfeited: ${format(forfeited)}`]),
+      ...(slash === null
+        ? []
+        : [
+            `Slashed ${slash.slashed.length} deposit(s) in ${slash.receipt.transactionHash}` +
+              (bounty === 0n ? "" : `, bounty ${format(bounty)}`),
+          ]),
+      ...(args.slash && slash === null ? ["Nothing to slash"] : []),
+      ...(!args.slash && canSlash && pending.length > 0
+        ? ["Run again with --slash to forfeit the remaining deposits"]
+        : []),
+    ]
+  );
+});
@@ -0,0 +1,28 @@
+import { auctionAction, connectAuction, output, resolveBidder } from "./common.js";
+import type { CommonArgs } from "./common.js";
+
+interface PauseArgs extends CommonArgs {
+  bidder?: string;
+}
+
+export default auctionAction<PauseArgs>(async (args, hre) => {
+  const { viem, auction } = await connectAuction(hre, args.address);
+  const wallet = await resolveBidder(viem, args.bidder ?? "0");
+
+  const receipt = await auction.pause(wallet.account);
+
+  output(
+    args.json,
+    {
+      auction: auction.address,
+      paused: true,
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+    },
+    [
+      `Paused ${auction.address}`,
+      `  Tx Hash: ${receipt.transactionHash}`,
+      `  Block: ${receipt.blockNumber}`,
+    ]
+  );
+});
@@ -0,0 +1,148 @@
+import type { HardhatViemHelpers } from "@nomicfoundation/hardhat-viem/types";
+import { getAddress } from "viem";
+import type { Address } from "viem";
+import type { AuctionClient, RefundOutcome } from "../../scripts/auction-client.js";
+import { BidNotRevealedError } from "../../scripts/auction-errors.js";
+import type { BidderSigners } from "../../scripts/bid-signers.js";
+import { formatAmount } from "../../scripts/payment-asset.js";
+import {
+  auctionAction,
+  connectAuction,
+  describeError,
+  loadSigners,
+  openVault,
+  output,
+  resolveBidderAddress,
+} from "./common.js";
+import type { CommonArgs, SignerArgs } from "./common.js";
+
+interface RefundArgs extends CommonArgs, SignerArgs {
+  bidder?: string;
+  all: boolean;
+}
+
+/**
+ * A vault bidder --all could not refund: skipped for want of a local signer
+ * or a revealed bid, or the claim failed.
+ */
+interface RefundSkip {
+  bidder: Address;
+  status: "no-signer" | "not-revealed" | "failed";
+  error?: string;
+}
+
+export default auctionAction<RefundArgs>(async (args, hre) => {
+  const { viem, auction } = await connectAuction(hre, args.address);
+  const signers = await loadSigners(viem, args);
+
+  if (!args.all) {
+    const bidder = await resolveBidderAddress(viem, args.bidder);
+    const signer = signers.find(bidder);
+    if (signer === undefined) {
+      throw new Error(`No signer for ${bidder}; pass its key with --key or --keystore`);
+    }
+    const outcome = await auction.claimRefundIfDue(signer);
+    output(
+      args.json,
+      { auction: auction.address, ...toRecord(outcome) },
+      describeOutcome(auction, outcome)
+    );
+    return;
+  }
+
+  if (args.bidder !== undefined) {
+    throw new Error("--bidder and --all cannot be combined");
+  }
+  const results = await refundVaultBidders(viem, auction, signers);
+  const failed = results.filter((result) => result.status === "failed").length;
+
+  output(
+    args.json,
+    {
+      auction: auction.address,
+      refunds: results.map((result) => ("receipt" in result ? toRecord(result) : result)),
+    },
+    results.length === 0
+      ? ["No bids in the vault for this auction"]
+      : results.flatMap((result) =>
+          "receipt" in result
+            ? describeOutcome(auction, result)
+            : [
+                result.status === "no-signer"
+                  ? `Skipped ${result.bidder}: no signer; pass its key with --key or --keystore`
+                  : result.status === "not-revealed"
+                    ? `Skipped ${result.bidder}: the bid was never revealed, so its deposit is forfeited`
+                    : `Failed ${result.bidder}: ${result.error}`,
+              ]
+        )
+  );
+  // Every refund that went through stays claimed; re-running retries the rest.
+  if (failed > 0) process.exitCode = 1;
+});
+
+/**
+ * Claims the refund of every bidder in the vault that a signer is available
+ * for, one at a time. A failure is recorded and the next bidder tried. A
+ * bid that was never revealed has nothing to claim and is skipped.
+ */
+async function refundVaultBidders(
+  viem: HardhatViemHelpers,
+  auction: AuctionClient,
+  signers: BidderSigners
+): Promise<(RefundOutcome | RefundSkip)[]> {
+  const phase = await auction.getPhase();
+  if (phase !== "finalized" && phase !== "cancelled") {
+    throw new Error('The auction is not finalized; run "auction finalize" first');
+  }
+
+  const vault = await openVault(viem, auction);
+  const results: (RefundOutcome | RefundSkip)[] = [];
+  for (const bid of vault.list()) {
+    const bidder = getAddress(bid.address);
+    // Checked up front: some nodes return the revert without its data.
+    if (phase !== "cancelled" && !(await auction.contract.read.hasRevealed([bidder]))) {
+      results.push({ bidder, status: "not-revealed" });
+      continue;
+    }
+    const signer = signers.find(bidder);
+    if (signer === undefined) {
+      results.push({ bidder, status: "no-signer" });
+      continue;
+    }
+    try {
+      results.push(await auction.claimRefundIfDue(signer));
+    } catch (error) {
+      if (error instanceof BidNotRevealedError) {
+        results.push({ bidder, status: "not-revealed" });
+        continue;
+      }
+      results.push({ bidder, status: "failed", error: describeError(error) });
+    }
+  }
+  return results;
+}
+
+function describeOutcome(auction: AuctionClient, outcome: RefundOutcome): string[] {
+  switch (outcome.status) {
+    case "refunded":
+      return [
+        `Refunded ${formatAmount(outcome.amount, auction.asset)} to ${outcome.bidder}`,
+        `  Tx Hash: ${outcome.receipt?.transactionHash}`,
+        `  Block: ${outcome.receipt?.blockNumber}`,
+      ];
+    case "already-refunded":
+      return [`Already refunded: ${outcome.bidder}`];
+    case "nothing-due":
+      return [`Nothing to refund for ${outcome.bidder}`];
+  }
+}
+
+function toRecord({ bidder, status, amount, receipt }: RefundOutcome) {
+  return {
+    bidder,
+    status,
+    amount,
+    transactionHash: receipt?.transactionHash ?? null,
+    blockNumber: receipt?.blockNumber ?? null,
+  };
+}
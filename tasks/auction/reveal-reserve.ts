@@ -0,0 +1,43 @@
+import fs from "fs";
+import { formatAmount } from "../../scripts/payment-asset.js";
+import {
+  auctionAction,
+  connectAuction,
+  openVault,
+  output,
+  resolveBidder,
+} from "./common.js";
+import type { CommonArgs } from "./common.js";
+
+interface RevealReserveArgs extends CommonArgs {
+  bidder?: string;
+}
+
+export default auctionAction<RevealReserveArgs>(async (args, hre) => {
+  const { viem, auction } = await connectAuction(hre, args.address);
+  const wallet = await resolveBidder(viem, args.bidder ?? "0");
+
+  const vault = await openVault(viem, auction);
+  if (!fs.existsSync(vault.reserveFile)) {
+    throw new Error(`No hidden reserve stored in ${vault.reserveFile}`);
+  }
+  const reserve = vault.readFile(vault.reserveFile);
+  const price = BigInt(reserve.bidAmount);
+
+  const receipt = await auction.revealReserve(wallet.account, price, reserve.secret);
+
+  output(
+    args.json,
+    {
+      auction: auction.address,
+      reservePrice: price,
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+    },
+    [
+      `Revealed reserve price of ${formatAmount(price, auction.asset)}`,
+      `  Tx Hash: ${receipt.transactionHash}`,
+      `  Block: ${receipt.blockNumber}`,
+    ]
+  );
+});
@@ -0,0 +1,122 @@
+import type { HardhatViemHelpers } from "@nomicfoundation/hardhat-viem/types";
+import { getAddress } from "viem";
+import type { Account } from "viem";
+import type { AuctionClient } from "../../scripts/auction-client.js";
+import type { Bid } from "../../scripts/bid-vault.js";
+import { deriveSecret } from "../../scripts/commit-reveal-utils.js";
+import { formatAmount, parseAmount } from "../../scripts/payment-asset.js";
+import {
+  auctionAction,
+  connectAuction,
+  loadSigners,
+  openVault,
+  output,
+  resolveBidder,
+  resolveBidderAddress,
+} from "./common.js";
+import type { CommonArgs, SignerArgs } from "./common.js";
+
+interface RevealArgs extends CommonArgs, SignerArgs {
+  bidder?: string;
+  amount?: string;
+  quantity: bigint;
+  secretFile?: string;
+  deriveSecret: boolean;
+}
+
+export default auctionAction<RevealArgs>(async (args, hre) => {
+  const { viem, auction } = await connectAuction(hre, args.address);
+
+  let signer: Account;
+  let bidAmount: bigint;
+  let quantity: bigint;
+  let secret: string;
+  if (args.deriveSecret) {
+    // Recovery path: re-sign for the secret instead of reading the vault.
+    // Signing needs one of the network's accounts.
+    if (args.amount === undefined) {
+      throw new Error("Missing --amount: required with --derive-secret");
+    }
+    const wallet = await resolveBidder(viem, args.bidder);
+    signer = wallet.account;
+    bidAmount = parseAmount(args.amount, auction.asset);
+    quantity = args.quantity;
+    secret = await deriveSecret(wallet, auction.address);
+  } else {
+    const bid = await loadBid(args, viem, auction);
+    const found = (await loadSigners(viem, args)).find(bid.address);
+    if (found === undefined) {
+      throw new Error(`No signer for ${bid.address}; pass its key with --key or --keystore`);
+    }
+    signer = found;
+    bidAmount = BigInt(bid.bidAmount);
+    quantity = BigInt(bid.quantity ?? 1);
+    secret = bid.secret;
+  }
+  const bidder = signer.address;
+
+  // Check first, so a reveal that cannot go through costs no gas.
+  const check = await auction.checkReveal(signer, bidAmount, secret, quantity);
+  if (check.status !== "ok") {
+    output(
+      args.json,
+      { auction: auction.address, bidder, status: check.status, detail: check.detail },
+      [`Not revealed from ${bidder}: ${check.status}${check.detail ? ` (${check.detail})` : ""}`]
+    );
+    // Already revealed is the outcome asked for; anything else is a failure.
+    if (check.status !== "already-revealed") process.exitCode = 1;
+    return;
+  }
+  const receipt = await auction.reveal(signer, bidAmount, secret, quantity);
+
+  output(
+    args.json,
+    {
+      auction: auction.address,
+      bidder,
+      status: check.status,
+      bidAmount,
+      quantity,
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+    },
+    [
+      quantity === 1n
+        ? `Revealed ${formatAmount(bidAmount, auction.asset)} from ${bidder}`
+        : `Revealed ${quantity} units at ${formatAmount(bidAmount, auction.asset)} from ${bidder}`,
+      `  Tx Hash: ${receipt.transactionHash}`,
+      `  Block: ${receipt.blockNumber}`,
+    ]
+  );
+});
+
+/**
+ * The bid in --secret-file, or else the vault's bid for --bidder. The bid's
+ * own address then picks the signer, so a bidder need not be a node account.
+ */
+async function loadBid(
+  args: RevealArgs,
+  viem: HardhatViemHelpers,
+  auction: AuctionClient
+): Promise<Bid> {
+  const vault = await openVault(viem, auction);
+  if (args.secretFile !== undefined) {
+    const bid = vault.readFile(args.secretFile);
+    if (args.bidder !== undefined) {
+      const bidder = await resolveBidderAddress(viem, args.bidder);
+      if (getAddress(bid.address) !== bidder) {
+        throw new Error(`Bid file belongs to ${bid.address}, not ${bidder}`);
+      }
+    }
+    return bid;
+  }
+
+  const bidder = await resolveBidderAddress(viem, args.bidder);
+  const bid = vault.load(bidder);
+  if (bid === undefined) {
+    throw new Error(
+      `No stored bid for ${bidder} in ${vault.dir}; pass --secret-file, or --derive-secret with --amount`
+    );
+  }
+  return bid;
+}
@@ -0,0 +1,224 @@
+import type { HardhatViemHelpers } from "@nomicfoundation/hardhat-viem/types";
+import { zeroAddress } from "viem";
+import {
+  describeLot,
+  describeLotOutcome,
+  describeReserve,
+} from "../../scripts/auction-client.js";
+import type { AuctionClient, BidderState } from "../../scripts/auction-client.js";
+import { formatAmount } from "../../scripts/payment-asset.js";
+import {
+  auctionAction,
+  connectAuction,
+  describeError,
+  describeSoftClose,
+  output,
+  toJson,
+} from "./common.js";
+import type { CommonArgs } from "./common.js";
+
+interface StatusArgs extends CommonArgs {
+  watch: boolean;
+}
+
+type AuctionStatus = Awaited<ReturnType<typeof readStatus>>;
+
+export default auctionAction<StatusArgs>(async (args, hre) => {
+  const { viem, auction } = await connectAuction(hre, args.address);
+
+  if (!args.watch) {
+    const status = await readStatus(auction);
+    output(args.json, status, describeStatus(auction, status, status.now));
+    return;
+  }
+  await watchStatus(viem, auction, args.json);
+});
+
+/**
+ * Redraws the status on every new block until interrupted. Between blocks the
+ * countdowns follow the wall clock. With --json, or when stdout is not a
+ * terminal, each block's status is printed below the last instead.
+ */
+async function watchStatus(
+  viem: HardhatViemHelpers,
+  auction: AuctionClient,
+  json: boolean
+): Promise<void> {
+  const publicClient = await viem.getPublicClient();
+  const inPlace = !json && process.stdout.isTTY === true;
+  let latest: { status: AuctionStatus; readAt: number } | undefined;
+
+  const render = () => {
+    if (latest === undefined) return;
+    const elapsed = BigInt(Math.floor((Date.now() - latest.readAt) / 1000));
+    const lines = describeStatus(auction, latest.status, latest.status.now + elapsed);
+    process.stdout.write(
+      `\x1b[H\x1b[2J${lines.join("\n")}\n\nWatching for new blocks (Ctrl+C to stop)...\n`
+    );
+  };
+  const refresh = async () => {
+    try {
+      const status = await readStatus(auction);
+      latest = { status, readAt: Date.now() };
+      if (json) {
+        console.log(toJson(status));
+      } else if (inPlace) {
+        render();
+      } else {
+        console.log(describeStatus(auction, status, status.now).join("\n") + "\n");
+      }
+    } catch (error) {
+      console.error(`Error: ${describeError(error)}`);
+    }
+  };
+
+  await new Promise<void>((resolve) => {
+    const unwatch = publicClient.watchBlockNumber({
+      emitOnBegin: true,
+      onBlockNumber: refresh,
+      onError: (error) => console.error(`Error: ${describeError(error)}`),
+    });
+    const ticker = inPlace ? setInterval(render, 1000) : undefined;
+    process.once("SIGINT", () => {
+      unwatch();
+      clearInterval(ticker);
+      resolve();
+    });
+  });
+}
+
+/** Everything the status shows, as printed by --json. */
+async function readStatus(auction: AuctionClient) {
+  const contract = auction.contract;
+
+  const [
+    phase,
+    { now, commitEndTime, revealEndTime },
+    bidders,
+    winner,
+    highestBid,
+    clearingPrice,
+    pricing,
+    tieBreak,
+    units,
+    unitsSold,
+    reserve,
+    escrowed,
+    proceeds,
+    lot,
+    paused,
+    softClose,
+    leader,
+  ] = await Promise.all([
+    auction.getPhase(),
+    auction.getTimeline(),
+    auction.getBidders(),
+    contract.read.winner(),
+    contract.read.highestBid(),
+    contract.read.clearingPrice(),
+    auction.getPricingMode(),
+    auction.getTieBreak(),
+    auction.getUnits(),
+    contract.read.unitsSold(),
+    auction.getReserve(),
+    auction.getEscrowed(),
+    contract.read.proceeds(),
+    auction.getLot(),
+    auction.isPaused(),
+    auction.getSoftClose(),
+    auction.getLeader(),
+  ]);
+  const states = await auction.getBidderStates();
+  const count = (...wanted: BidderState[]) =>
+    states.filter(({ state }) => wanted.includes(state)).length;
+  // Wins come after a reveal, and so do refunds unless the auction was
+  // cancelled, which refunds non-revealers too.
+  const refunded = states.filter(({ state }) => state === "refunded");
+  const refundedRevealed = await Promise.all(
+    refunded.map(({ bidder }) => contract.read.hasRevealed([bidder]))
+  );
+  const revealedCount = count("revealed", "won") + refundedRevealed.filter(Boolean).length;
+  const refundedCount = refunded.length;
+  const finalized = phase === "finalized";
+
+  return {
+    auction: auction.address,
+    paymentToken: auction.asset.token,
+    pricing,
+    tieBreak,
+    units,
+    reservePrice: reserve.price,
+    reserveHidden: reserve.hidden,
+    phase,
+    paused,
+    now,
+    commitEndTime,
+    revealEndTime,
+    softClose,
+    committed: bidders.length,
+    revealed: revealedCount,
+    refunded: refundedCount,
+    bidders: states,
+    escrowed,
+    lot,
+    finalized,
+    sold: finalized ? winner !== zeroAddress : null,
+    winner: finalized ? winner : null,
+    highestBid: finalized ? highestBid : null,
+    clearingPrice: finalized ? clearingPrice : null,
+    unitsSold: finalized ? unitsSold : null,
+    proceeds: finalized ? proceeds : null,
+    leader: finalized ? null : leader && { bidder: leader.bidder, price: leader.price },
+  };
+}
+
+function describeStatus(auction: AuctionClient, status: AuctionStatus, now: bigint): string[] {
+  const { asset } = auction;
+  const { units, softClose, lot, leader, finalized } = status;
+  return [
+    `Auction: ${auction.address}`,
+    `  Payment: ${asset.symbol}`,
+    `  Pricing: ${status.pricing}`,
+    `  Tie-break: ${status.tieBreak}`,
+    ...(units === 1n ? [] : [`  Units: ${units}`]),
+    `  Reserve: ${describeReserve({ price: status.reservePrice, hidden: status.reserveHidden }, asset)}`,
+    `  Phase: ${status.phase}${status.paused ? " (paused)" : ""}`,
+    `  Current timestamp: ${now}`,
+    `  Commit ends at: ${status.commitEndTime}${countdown(status.commitEndTime, now)}`,
+    `  Reveal ends at: ${status.revealEndTime}${countdown(status.revealEndTime, now)}`,
+    ...(softClose === null
+      ? []
+      : [`  Soft close: ${describeSoftClose(softClose)}; extended ${softClose.extended}s so far`]),
+    `  Committed: ${status.committed}`,
+    `  Revealed: ${status.revealed}`,
+    ...(leader === null
+      ? []
+      : [`  Leader: ${leader.bidder} at ${formatAmount(leader.price, asset)}`]),
+    `  Escrowed: ${formatAmount(status.escrowed, asset)}`,
+    ...(lot === null ? [] : [`  Lot: ${describeLot(lot)}, ${describeLotOutcome(lot)}`]),
+    ...(finalized && !status.sold ? ["  Outcome: unsold"] : []),
+    ...(finalized
+      ? [
+          `  Winner: ${status.winner}`,
+          `  Highest Bid: ${formatAmount(status.highestBid ?? 0n, asset)}`,
+          `  Clearing Price: ${formatAmount(status.clearingPrice ?? 0n, asset)}`,
+          ...(units === 1n ? [] : [`  Units Sold: ${status.unitsSold} of ${units}`]),
+          `  Unwithdrawn Proceeds: ${formatAmount(status.proceeds ?? 0n, asset)}`,
+          `  Refunded: ${status.refunded} of ${status.committed}`,
+        ]
+      : []),
+  ];
+}
+
+/** Time left until `end`, e.g. ` (in 1h 02m 05s)`; empty once it has passed. */
+function countdown(end: bigint, now: bigint): string {
+  if (end < now) return "";
+  const left = Number(end - now);
+  const [hours, minutes, seconds] = [Math.floor(left / 3600), Math.floor(left / 60) % 60, left % 60];
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return hours > 0
+    ? ` (in ${hours}h ${pad(minutes)}m ${pad(seconds)}s)`
+    : minutes > 0
+      ? ` (in ${minutes}m ${pad(seconds)}s)`
+      : ` (in ${seconds}s)`;
+}
@@ -0,0 +1,33 @@
+import { auctionAction, connectAuction, output, resolveBidder } from "./common.js";
+import type { CommonArgs } from "./common.js";
+
+interface UnpauseArgs extends CommonArgs {
+  bidder?: string;
+}
+
+export default auctionAction<UnpauseArgs>(async (args, hre) => {
+  const { viem, auction } = await connectAuction(hre, args.address);
+  const wallet = await resolveBidder(viem, args.bidder ?? "0");
+
+  const receipt = await auction.unpause(wallet.account);
+  const { commitEndTime, revealEndTime } = await auction.getTimeline();
+
+  output(
+    args.json,
+    {
+      auction: auction.address,
+      paused: false,
+      commitEndTime,
+      revealEndTime,
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+    },
+    [
+      `Resumed ${auction.address}`,
+      `  Commit ends at: ${commitEndTime}`,
+      `  Reveal ends at: ${revealEndTime}`,
+      `  Tx Hash: ${receipt.transactionHash}`,
+      `  Block: ${receipt.blockNumber}`,
+    ]
+  );
+});
@@ -0,0 +1,30 @@
+import { formatAmount } from "../../scripts/payment-asset.js";
+import { auctionAction, connectAuction, output, resolveBidder } from "./common.js";
+import type { CommonArgs } from "./common.js";
+
+interface WithdrawArgs extends CommonArgs {
+  bidder?: string;
+}
+
+export default auctionAction<WithdrawArgs>(async (args, hre) => {
+  const { viem, auction } = await connectAuction(hre, args.address);
+  const wallet = await resolveBidder(viem, args.bidder ?? "0");
+
+  const { amount, receipt } = await auction.withdrawProceeds(wallet.account);
+
+  output(
+    args.json,
+    {
+      auction: auction.address,
+      owner: wallet.account.address,
+      amount,
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+    },
+    [
+      `Withdrew ${formatAmount(amount, auction.asset)} of proceeds to ${wallet.account.address}`,
+      `  Tx Hash: ${receipt.transactionHash}`,
+      `  Block: ${receipt.blockNumber}`,
+    ]
+  );
+});
@@ -0,0 +1,138 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getAddress } from "viem";
+import {
+  compareAllocation,
+  computeAllocation,
+  describeTieLoss,
+  findTieLosses,
+} from "../scripts/allocation.js";
+import type { AllocationRules, RevealedBid } from "../scripts/allocation.js";
+
+const ALICE = getAddress("0x00000000000000000000000000000000000000a1");
+const BOB = getAddress("0x00000000000000000000000000000000000000b2");
+const CAROL = getAddress("0x00000000000000000000000000000000000000c3");
+
+// In commit order: Alice, Bob, Carol.
+const BIDS: RevealedBid[] = [
+  { bidder: ALICE, price: 30n, quantity: 2n },
+  { bidder: BOB, price: 50n, quantity: 3n },
+  { bidder: CAROL, price: 20n, quantity: 4n },
+];
+
+function rules(overrides: Partial<AllocationRules> = {}): AllocationRules {
+  return { units: 4n, pricing: "first-price", reservePrice: 0n, reserveHidden: false, ...overrides };
+}
+
+describe("allocation", async function () {
+  it("Should charge each winner their own price in pay-as-bid mode", async function () {
+    const result = computeAllocation(BIDS, rules());
+
+    assert.deepEqual(result.allocations, [
+      { bidder: BOB, units: 3n, payment: 150n },
+      { bidder: ALICE, units: 1n, payment: 30n },
+    ]);
+    assert.equal(result.highestBid, 50n);
+    assert.equal(result.secondHighestBid, 30n);
+    assert.equal(result.clearingPrice, 30n);
+    assert.equal(result.unitsSold, 4n);
+    assert.equal(result.proceeds, 180n);
+  });
+
+  it("Should charge every unit the lowest accepted price in uniform mode", async function () {
+    const result = computeAllocation(BIDS, rules({ pricing: "uniform", units: 5n }));
+
+    assert.deepEqual(
+      result.allocations.map(({ units, payment }) => [units, payment]),
+      [
+        [3n, 90n],
+        [2n, 60n],
+      ]
+    );
+    assert.equal(result.clearingPrice, 30n);
+    // Carol is the first bid left out.
+    assert.equal(result.secondHighestBid, 20n);
+  });
+
+  it("Should charge every unit the highest rejected price in second-price mode", async function () {
+    const result = computeAllocation(BIDS, rules({ pricing: "second-price", units: 5n }));
+
+    assert.equal(result.clearingPrice, 20n);
+    assert.equal(result.proceeds, 100n);
+  });
+
+  it("Should sell what it can when demand is short", async function () {
+    const result = computeAllocation(BIDS, rules({ pricing: "second-price", units: 20n }));
+
+    assert.equal(result.unitsSold, 9n);
+    assert.equal(result.secondHighestBid, 0n);
+    assert.equal(result.clearingPrice, 0n);
+  });
+
+  it("Should give ties to the earlier committer and stop at the reserve", async function () {
+    const tied: RevealedBid[] = [
+      { bidder: ALICE, price: 40n, quantity: 2n },
+      { bidder: BOB, price: 40n, quantity: 2n },
+      { bidder: CAROL, price: 10n, quantity: 2n },
+    ];
+    const result = computeAllocation(tied, rules({ units: 6n, pricing: "uniform", reservePrice: 25n }));
+
+    assert.deepEqual(
+      result.allocations.map(({ bidder }) => bidder),
+      [ALICE, BOB]
+    );
+    assert.equal(result.unitsSold, 4n);
+    assert.equal(result.clearingPrice, 40n);
+
+    const hidden = computeAllocation(tied, rules({ reserveHidden: true }));
+    assert.deepEqual(hidden.allocations, []);
+    assert.equal(hidden.highestBid, 40n);
+  });
+
+  it("Should rank equal prices by tie-break key when given", async function () {
+    const tied: RevealedBid[] = [
+      { bidder: ALICE, price: 40n, quantity: 1n, tieKey: 900n },
+      { bidder: BOB, price: 40n, quantity: 1n, tieKey: 100n },
+      { bidder: CAROL, price: 40n, quantity: 1n, tieKey: 500n },
+    ];
+    const result = computeAllocation(tied, rules({ units: 1n }));
+
+    assert.deepEqual(
+      result.allocations.map(({ bidder }) => bidder),
+      [BOB]
+    );
+    assert.equal(result.secondHighestBid, 40n);
+  });
+
+  it("Should explain who lost a tie and why", async function () {
+    const tied: RevealedBid[] = [
+      { bidder: ALICE, price: 40n, quantity: 2n },
+      { bidder: BOB, price: 40n, quantity: 2n },
+      { bidder: CAROL, price: 10n, quantity: 2n },
+    ];
+    const result = computeAllocation(tied, rules({ units: 3n }));
+    const losses = findTieLosses(tied, result);
+
+    // Bob is partly filled; Carol lost on price, not on a tie.
+    assert.deepEqual(losses, [{ bidder: BOB, price: 40n, beatenBy: [ALICE] }]);
+    assert.equal(
+      describeTieLoss(losses[0], "earliest-reveal", (price) => `${price} wei`),
+      `${BOB} lost a tie at 40 wei to ${ALICE}, who revealed earlier (tie-break: earliest-reveal)`
+    );
+  });
+
+  it("Should list every difference between two allocations", async function () {
+    const expected = computeAllocation(BIDS, rules());
+    const actual = {
+      ...expected,
+      clearingPrice: 50n,
+      allocations: [{ ...expected.allocations[0], bidder: BOB.toLowerCase() as `0x${string}` }],
+    };
+
+    assert.deepEqual(compareAllocation(expected, expected), []);
+    assert.deepEqual(compareAllocation(expected, actual), [
+      "clearingPrice: expected 30, got 50",
+      `${ALICE}: expected 1 units for 30, got 0 units for 0`,
+    ]);
+  });
+});
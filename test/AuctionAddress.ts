@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre from "hardhat";
+import {
+  AUCTION_FUTURE_ID,
+  AuctionAddressNotFoundError,
+  ERC20_AUCTION_FUTURE_ID,
+  FACTORY_FUTURE_ID,
+  FactoryAddressNotFoundError,
+  resolveAuctionAddress,
+  resolveFactoryAddress,
+} from "../scripts/auction-address.js";
+
+const DEPLOYED = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512";
+const OVERRIDE = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+
+function makeDeploymentsDir(chainId: number, futureId: string = AUCTION_FUTURE_ID): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "auction-deployments-"));
+  fs.mkdirSync(path.join(dir, `chain-${chainId}`));
+  fs.writeFileSync(
+    path.join(dir, `chain-${chainId}`, "deployed_addresses.json"),
+    JSON.stringify({ [futureId]: DEPLOYED })
+  );
+  return dir;
+}
+
+describe("resolveAuctionAddress", async function () {
+  it("Should read the Ignition deployment for the connected chain", async function () {
+    const { viem } = await hre.network.connect();
+    const publicClient = await viem.getPublicClient();
+    const deploymentsDir = makeDeploymentsDir(await publicClient.getChainId());
+
+    const address = await resolveAuctionAddress(publicClient, { deploymentsDir });
+    assert.equal(address, DEPLOYED);
+  });
+
+  it("Should read an ERC-20 auction deployment", async function () {
+    const { viem } = await hre.network.connect();
+    const publicClient = await viem.getPublicClient();
+    const deploymentsDir = makeDeploymentsDir(
+      await publicClient.getChainId(),
+      ERC20_AUCTION_FUTURE_ID
+    );
+
+    const address = await resolveAuctionAddress(publicClient, { deploymentsDir });
+    assert.equal(address, DEPLOYED);
+  });
+
+  it("Should prefer an explicit address over the deployment", async function () {
+    const { viem } = await hre.network.connect();
+    const publicClient = await viem.getPublicClient();
+    const deploymentsDir = makeDeploymentsDir(await publicClient.getChainId());
+
+    const address = await resolveAuctionAddress(publicClient, {
+      address: OVERRIDE.toLowerCase(),
+      deploymentsDir,
+    });
+    assert.equal(address, OVERRIDE);
+  });
+
+  it("Should fail clearly when the chain has no deployment", async function () {
+    const { viem } = await hre.network.connect();
+    const publicClient = await viem.getPublicClient();
+    const deploymentsDir = makeDeploymentsDir(1);
+
+    await assert.rejects(
+      resolveAuctionAddress(publicClient, { deploymentsDir }),
+      (error) => {
+        assert.ok(error instanceof AuctionAddressNotFoundError);
+        assert.match(error.message, /chain-31337/);
+        return true;
+      }
+    );
+  });
+});
+
+describe("resolveFactoryAddress", async function () {
+  it("Should read the factory from the Ignition deployment", async function () {
+    const { viem } = await hre.network.connect();
+    const publicClient = await viem.getPublicClient();
+    const deploymentsDir = makeDeploymentsDir(await publicClient.getChainId(), FACTORY_FUTURE_ID);
+
+    const address = await resolveFactoryAddress(publicClient, { deploymentsDir });
+    assert.equal(address, DEPLOYED);
+  });
+
+  it("Should not mistake an auction deployment for a factory", async function () {
+    const { viem } = await hre.network.connect();
+    const publicClient = await viem.getPublicClient();
+    const deploymentsDir = makeDeploymentsDir(await publicClient.getChainId());
+
+    await assert.rejects(
+      resolveFactoryAddress(publicClient, { deploymentsDir }),
+      FactoryAddressNotFoundError
+    );
+  });
+});
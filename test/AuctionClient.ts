@@ -0,0 +1,263 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import hre from "hardhat";
+import { getAddress } from "viem";
+import { AuctionClient } from "../scripts/auction-client.js";
+import {
+  AuctionError,
+  AuctionNotFinalizedError,
+  BidderAlreadyCommittedError,
+  BidNotRevealedError,
+  CommitmentMismatchError,
+  CommitPhaseNotEndedError,
+  NoBidToRefundError,
+  RevealPhaseNotEndedError,
+} from "../scripts/auction-errors.js";
+
+type Viem = Awaited<ReturnType<typeof hre.network.connect>>["viem"];
+
+async function increaseTime(viem: Viem, seconds: bigint) {
+  const testClient = await viem.getTestClient();
+  const publicClient = await viem.getPublicClient();
+  const currentBlock = await publicClient.getBlock();
+  const targetTime = currentBlock.timestamp + seconds;
+  await testClient.setNextBlockTimestamp({ timestamp: targetTime });
+  await testClient.mine({ blocks: 1 });
+}
+
+describe("AuctionClient", async function () {
+  it("Should run a full auction through the client", async function () {
+    const { viem } = await hre.network.connect();
+    const [owner, bidderA, bidderB] = await viem.getWalletClients();
+
+    const deployed = await viem.deployContract("SealedBidAuction", [
+      60n,
+      60n,
+      owner.account.address,
+    ]);
+    const client = await AuctionClient.connect(viem, deployed.address);
+
+    assert.equal(await client.getPhase(), "commit");
+
+    await client.commit(bidderA.account, 10n, "client-a", 50n);
+    const { commitment, deposit } = await client.commit(bidderB.account, 20n, "client-b", 50n);
+    assert.equal(deposit, 50n);
+    assert.equal(await client.getDeposit(bidderB.account.address), 50n);
+    assert.equal(await deployed.read.getCommitment([bidderB.account.address]), commitment);
+    assert.deepEqual(
+      (await client.getBidders()).map((a) => a.toLowerCase()),
+      [bidderA.account.address, bidderB.account.address].map((a) => a.toLowerCase())
+    );
+
+    await increaseTime(viem, 61n);
+    assert.equal(await client.getPhase(), "reveal");
+
+    await client.reveal(bidderA.account, 10n, "client-a");
+    await client.reveal(bidderB.account, 20n, "client-b");
+
+    await increaseTime(viem, 61n);
+    assert.equal(await client.getPhase(), "ended");
+
+    await client.finalize(owner.account);
+    assert.equal(await client.getPhase(), "finalized");
+    assert.equal(
+      (await deployed.read.winner()).toLowerCase(),
+      bidderB.account.address.toLowerCase()
+    );
+
+    assert.equal((await client.claimRefund(bidderA.account)).amount, 50n);
+    assert.equal((await client.claimRefund(bidderB.account)).amount, 30n);
+    assert.equal((await client.withdrawProceeds(owner.account)).amount, 20n);
+  });
+
+  it("Should track the leader as bids are revealed", async function () {
+    const { viem } = await hre.network.connect();
+    const [owner, bidderA, bidderB, bidderC] = await viem.getWalletClients();
+
+    const deployed = await viem.deployContract("SealedBidAuction", [
+      60n,
+      60n,
+      owner.account.address,
+    ]);
+    const client = await AuctionClient.connect(viem, deployed.address);
+
+    await client.commit(bidderA.account, 10n, "leader-a", 50n);
+    await client.commit(bidderB.account, 30n, "leader-b", 50n);
+    await client.commit(bidderC.account, 30n, "leader-c", 50n);
+    await increaseTime(viem, 61n);
+    assert.equal(await client.getLeader(), null);
+
+    await client.reveal(bidderA.account, 10n, "leader-a");
+    assert.equal((await client.getLeader())?.bidder, getAddress(bidderA.account.address));
+
+    // C ties B on price but committed later, so B keeps the lead.
+    await client.reveal(bidderC.account, 30n, "leader-c");
+    await client.reveal(bidderB.account, 30n, "leader-b");
+    const leader = await client.getLeader();
+    assert.equal(leader?.bidder, getAddress(bidderB.account.address));
+    assert.equal(leader?.price, 30n);
+
+    await increaseTime(viem, 61n);
+    await client.finalize(owner.account);
+    assert.equal(await deployed.read.winner(), leader?.bidder);
+  });
+
+  it("Should report whether each reveal would go through", async function () {
+    const { viem } = await hre.network.connect();
+    const [owner, bidder, underfunded] = await viem.getWalletClients();
+
+    const deployed = await viem.deployContract("SealedBidAuction", [
+      60n,
+      60n,
+      owner.account.address,
+    ]);
+    const client = await AuctionClient.connect(viem, deployed.address);
+
+    await client.commit(bidder.account, 10n, "check-a", 50n);
+    // The deposit is short of the bid, which only the contract can tell.
+    await client.commit(underfunded.account, 30n, "check-b", 20n);
+
+    const status = async (account: typeof bidder.account, amount: bigint, secret: string) =>
+      (await client.checkReveal(account, amount, secret)).status;
+
+    assert.equal(await status(bidder.account, 10n, "check-a"), "wrong-phase");
+    await increaseTime(viem, 61n);
+
+    assert.equal(await status(bidder.account, 10n, "check-a"), "ok");
+    assert.equal(await status(bidder.account, 11n, "check-a"), "mismatch");
+    assert.equal(await status(owner.account, 10n, "check-a"), "no-commitment");
+    assert.deepEqual(await client.checkReveal(underfunded.account, 30n, "check-b"), {
+      bidder: getAddress(underfunded.account.address),
+      status: "reverts",
+      detail: "InsufficientDeposit",
+    });
+
+    await client.reveal(bidder.account, 10n, "check-a");
+    assert.equal(await status(bidder.account, 10n, "check-a"), "already-revealed");
+  });
+
+  it("Should decode custom errors into typed exceptions", async function () {
+    const { viem } = await hre.network.connect();
+    const [owner, bidder] = await viem.getWalletClients();
+
+    const deployed = await viem.deployContract("SealedBidAuction", [
+      60n,
+      60n,
+      owner.account.address,
+    ]);
+    const client = await AuctionClient.connect(viem, deployed.address);
+
+    await client.commit(bidder.account, 5n, "typed-errors");
+
+    await assert.rejects(
+      client.commit(bidder.account, 5n, "typed-errors"),
+      BidderAlreadyCommittedError
+    );
+    await assert.rejects(
+      client.reveal(bidder.account, 5n, "typed-errors"),
+      CommitPhaseNotEndedError
+    );
+    await assert.rejects(client.finalize(owner.account), RevealPhaseNotEndedError);
+
+    await increaseTime(viem, 61n);
+
+    await assert.rejects(client.reveal(bidder.account, 6n, "typed-errors"), (error) => {
+      assert.ok(error instanceof CommitmentMismatchError);
+      assert.ok(error instanceof AuctionError);
+      assert.equal(error.errorName, "CommitmentMismatch");
+      return true;
+    });
+  });
+
+  it("Should reject each invalid refund with a typed exception", async function () {
+    const { viem } = await hre.network.connect();
+    const [owner, revealer, silent, stranger] = await viem.getWalletClients();
+
+    const deployed = await viem.deployContract("SealedBidAuction", [
+      60n,
+      60n,
+      owner.account.address,
+    ]);
+    const client = await AuctionClient.connect(viem, deployed.address);
+
+    await client.commit(revealer.account, 10n, "refund-revealer", 50n);
+    await client.commit(silent.account, 20n, "refund-silent", 50n);
+    await increaseTime(viem, 61n);
+    await client.reveal(revealer.account, 10n, "refund-revealer");
+    await assert.rejects(client.claimRefund(revealer.account), AuctionNotFinalizedError);
+
+    await increaseTime(viem, 61n);
+    await assert.rejects(client.claimRefund(revealer.account), AuctionNotFinalizedError);
+    await client.finalize(owner.account);
+
+    await assert.rejects(client.claimRefund(silent.account), BidNotRevealedError);
+    await assert.rejects(client.claimRefund(stranger.account), NoBidToRefundError);
+    assert.equal((await client.claimRefund(revealer.account)).amount, 40n);
+    await assert.rejects(client.claimRefund(revealer.account), NoBidToRefundError);
+  });
+
+  it("Should claim each refund only once when retried", async function () {
+    const { viem } = await hre.network.connect();
+    const [owner, bidderA, bidderB, stranger] = await viem.getWalletClients();
+
+    const deployed = await viem.deployContract("SealedBidAuction", [
+      60n,
+      60n,
+      owner.account.address,
+    ]);
+    const client = await AuctionClient.connect(viem, deployed.address);
+
+    await client.commit(bidderA.account, 10n, "retry-a", 50n);
+    // Bidder B deposits exactly the winning bid, leaving nothing to refund.
+    await client.commit(bidderB.account, 20n, "retry-b");
+    await increaseTime(viem, 61n);
+    await client.reveal(bidderA.account, 10n, "retry-a");
+    await client.reveal(bidderB.account, 20n, "retry-b");
+    await increaseTime(viem, 61n);
+
+    await assert.rejects(client.claimRefundIfDue(bidderA.account), AuctionNotFinalizedError);
+    await client.finalize(owner.account);
+
+    const first = await client.claimRefundIfDue(bidderA.account);
+    assert.equal(first.status, "refunded");
+    assert.equal(first.amount, 50n);
+    assert.ok(first.receipt !== null);
+
+    assert.deepEqual(await client.claimRefundIfDue(bidderA.account), {
+      bidder: getAddress(bidderA.account.address),
+      status: "already-refunded",
+      amount: 0n,
+      receipt: null,
+    });
+    assert.equal((await client.claimRefundIfDue(bidderB.account)).status, "nothing-due");
+    assert.equal((await client.claimRefundIfDue(stranger.account)).status, "nothing-due");
+  });
+
+  it("Should report a winner's claimed refund as already refunded", async function () {
+    const { viem } = await hre.network.connect();
+    const [owner, winner, loser] = await viem.getWalletClients();
+
+    const deployed = await viem.deployContract("SealedBidAuction", [
+      60n,
+      60n,
+      owner.account.address,
+    ]);
+    const client = await AuctionClient.connect(viem, deployed.address);
+
+    await client.commit(winner.account, 20n, "winner-refund", 50n);
+    await client.commit(loser.account, 10n, "loser-refund", 50n);
+    await increaseTime(viem, 61n);
+    await client.reveal(winner.account, 20n, "winner-refund");
+    await client.reveal(loser.account, 10n, "loser-refund");
+    await increaseTime(viem, 61n);
+    await client.finalize(owner.account);
+
+    const first = await client.claimRefundIfDue(winner.account);
+    assert.equal(first.status, "refunded");
+    assert.equal(first.amount, 30n);
+    // The winner stays "won", so only the refund tells a claim from nothing due.
+    assert.equal(await client.getBidderState(winner.account.address), "won");
+    assert.equal((await client.claimRefundIfDue(winner.account)).status, "already-refunded");
+  });
+});
+
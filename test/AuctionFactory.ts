@@ -0,0 +1,184 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import hre from "hardhat";
+import { getAddress, parseEther, zeroAddress } from "viem";
+import { AuctionClient } from "../scripts/auction-client.js";
+import { AuctionRegistry } from "../scripts/auction-registry.js";
+
+type Viem = Awaited<ReturnType<typeof hre.network.connect>>["viem"];
+
+async function increaseTime(viem: Viem, seconds: number) {
+  const testClient = await viem.getTestClient();
+  await testClient.increaseTime({ seconds });
+  await testClient.mine({ blocks: 1 });
+}
+
+async function deployFixture(viem: Viem) {
+  const [deployer, alice, bob] = await viem.getWalletClients();
+  const factory = await viem.deployContract("AuctionFactory");
+  const registry = await AuctionRegistry.connect(viem, factory.address);
+  return { deployer, alice, bob, factory, registry };
+}
+
+describe("AuctionFactory", async function () {
+  it("Should create an ETH auction owned by the creator with its parameters applied", async function () {
+    const { viem } = await hre.network.connect();
+    const { alice, factory, registry } = await deployFixture(viem);
+
+    const { auction } = await registry.create(alice.account, {
+      commitDuration: 60n,
+      revealDuration: 30n,
+      pricing: "uniform",
+      tieBreak: "earliest-reveal",
+      units: 3n,
+      reservePrice: parseEther("0.5"),
+      softClose: { window: 30n, extension: 20n, cap: 60n },
+    });
+    const client = await AuctionClient.connect(viem, auction);
+
+    assert.equal(getAddress(await client.contract.read.owner()), getAddress(alice.account.address));
+    assert.equal(client.asset.symbol, "ETH");
+    assert.equal(await client.getPricingMode(), "uniform");
+    assert.equal(await client.getTieBreak(), "earliest-reveal");
+    assert.equal(await client.getUnits(), 3n);
+    assert.deepEqual(await client.getReserve(), {
+      price: parseEther("0.5"),
+      hidden: false,
+    });
+    assert.deepEqual(await client.getSoftClose(), {
+      window: 30n,
+      extension: 20n,
+      cap: 60n,
+      extended: 0n,
+    });
+    const { now, commitEndTime, revealEndTime } = await client.getTimeline();
+    assert.equal(commitEndTime, now + 60n);
+    assert.equal(revealEndTime, commitEndTime + 30n);
+
+    assert.equal(await factory.read.isAuction([auction]), true);
+    assert.equal(getAddress(await factory.read.creatorOf([auction])), getAddress(alice.account.address));
+    // A minimal proxy, not a full copy of the auction.
+    const code = await registry.publicClient.getCode({ address: auction });
+    assert.equal((code!.length - 2) / 2, 45);
+  });
+
+  it("Should create an ERC-20 auction for the given token", async function () {
+    const { viem } = await hre.network.connect();
+    const { alice, registry } = await deployFixture(viem);
+    const token = await viem.deployContract("MockERC20", ["Test USD", "TUSD", 6]);
+
+    const { auction, receipt } = await registry.create(alice.account, {
+      commitDuration: 60n,
+      revealDuration: 60n,
+      paymentToken: token.address,
+    });
+    const client = await AuctionClient.connect(viem, auction);
+
+    assert.equal(client.asset.token, getAddress(token.address));
+    assert.equal(client.asset.symbol, "TUSD");
+    const events = await registry.factory.getEvents.AuctionCreated(
+      {},
+      { blockHash: receipt.blockHash }
+    );
+    assert.equal(events.length, 1);
+    assert.equal(events[0].args.auction, auction);
+    assert.equal(events[0].args.creator, getAddress(alice.account.address));
+    assert.equal(events[0].args.paymentToken, getAddress(token.address));
+  });
+
+  it("Should reject invalid parameters", async function () {
+    const { viem } = await hre.network.connect();
+    const { alice, registry } = await deployFixture(viem);
+
+    await assert.rejects(
+      registry.create(alice.account, { commitDuration: 60n, revealDuration: 60n, units: 0n }),
+      /InvalidUnits/
+    );
+    assert.equal(await registry.factory.read.auctionCount(), 0n);
+  });
+
+  it("Should refuse to initialize a template or a clone twice", async function () {
+    const { viem } = await hre.network.connect();
+    const { alice, factory, registry } = await deployFixture(viem);
+    const { auction } = await registry.create(alice.account, {
+      commitDuration: 60n,
+      revealDuration: 60n,
+    });
+
+    for (const address of [await factory.read.ethImplementation(), auction]) {
+      const contract = await viem.getContractAt("SealedBidAuction", address);
+      await assert.rejects(
+        contract.write.initialize([60n, 60n, alice.account.address], { account: alice.account }),
+        /AlreadyInitialized/
+      );
+    }
+  });
+
+  it("Should list auctions by creator and phase", async function () {
+    const { viem } = await hre.network.connect();
+    const { alice, bob, registry } = await deployFixture(viem);
+
+    const { auction: first } = await registry.create(alice.account, {
+      commitDuration: 60n,
+      revealDuration: 60n,
+    });
+    const { auction: second } = await registry.create(bob.account, {
+      commitDuration: 600n,
+      revealDuration: 600n,
+    });
+    const { auction: third } = await registry.create(alice.account, {
+      commitDuration: 600n,
+      revealDuration: 600n,
+    });
+    await increaseTime(viem, 100);
+
+    const all = await registry.list();
+    assert.deepEqual(
+      all.map(({ address, phase }) => [address, phase]),
+      [
+        [first, "reveal"],
+        [second, "commit"],
+        [third, "commit"],
+      ]
+    );
+    assert.equal(all[0].paymentToken, zeroAddress);
+
+    const byAlice = await registry.list({ creator: alice.account.address });
+    assert.deepEqual(
+      byAlice.map(({ address }) => address),
+      [first, third]
+    );
+    assert.ok(byAlice.every(({ creator }) => creator === getAddress(alice.account.address)));
+
+    const inCommit = await registry.list({ creator: alice.account.address, phase: "commit" });
+    assert.deepEqual(
+      inCommit.map(({ address }) => address),
+      [third]
+    );
+  });
+
+  it("Should run a full auction on a clone", async function () {
+    const { viem } = await hre.network.connect();
+    const { deployer, alice, bob, registry } = await deployFixture(viem);
+
+    const { auction } = await registry.create(deployer.account, {
+      commitDuration: 60n,
+      revealDuration: 60n,
+      pricing: "second-price",
+    });
+    const client = await AuctionClient.connect(viem, auction);
+    await client.commit(alice.account, parseEther("2"), "alice-secret");
+    await client.commit(bob.account, parseEther("1"), "bob-secret");
+    await increaseTime(viem, 61);
+    await client.reveal(alice.account, parseEther("2"), "alice-secret");
+    await client.reveal(bob.account, parseEther("1"), "bob-secret");
+    await increaseTime(viem, 61);
+    await client.finalize(deployer.account);
+
+    assert.equal(getAddress(await client.contract.read.winner()), getAddress(alice.account.address));
+    assert.equal(await client.contract.read.clearingPrice(), parseEther("1"));
+    assert.equal(await client.getPhase(), "finalized");
+    const [listing] = await registry.list({ phase: "finalized" });
+    assert.equal(listing.address, auction);
+  });
+});
@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it } from "node:test";
+import hre from "hardhat";
+import { getAddress } from "viem";
+import { AuctionClient } from "../scripts/auction-client.js";
+import {
+  AuctionIndexer,
+  JsonIndexStore,
+  MemoryIndexStore,
+} from "../scripts/auction-indexer.js";
+
+type Viem = Awaited<ReturnType<typeof hre.network.connect>>["viem"];
+
+async function increaseTime(viem: Viem, seconds: bigint) {
+  const testClient = await viem.getTestClient();
+  await testClient.increaseTime({ seconds: Number(seconds) });
+  await testClient.mine({ blocks: 1 });
+}
+
+describe("AuctionIndexer", async function () {
+  it("Should backfill an auction's history and persist it", async function () {
+    const { viem } = await hre.network.connect();
+    const [owner, bidderA, bidderB] = await viem.getWalletClients();
+    const deployed = await viem.deployContract("SealedBidAuction", [
+      60n,
+      60n,
+      owner.account.address,
+    ]);
+    const client = await AuctionClient.connect(viem, deployed.address);
+
+    await client.commit(bidderA.account, 10n, "index-a", 50n);
+    await client.commit(bidderB.account, 20n, "index-b", 50n);
+    await increaseTime(viem, 61n);
+    await client.reveal(bidderB.account, 20n, "index-b");
+    await increaseTime(viem, 61n);
+    await client.finalize(owner.account);
+    await client.claimRefund(bidderB.account);
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "auction-index-"));
+    try {
+      const store = JsonIndexStore.forChain(31337, dir);
+      // A tiny range makes the backfill span several getLogs calls.
+      const indexer = await AuctionIndexer.connect(viem, { store, blockRange: 2n });
+      const { added, removed } = await indexer.sync([deployed.address]);
+
+      assert.deepEqual(
+        added.map((event) => event.eventName),
+        ["BidCommitted", "BidCommitted", "BidRevealed", "AuctionFinalized", "BidRefunded"]
+      );
+      assert.equal(removed.length, 0);
+
+      const bidder = getAddress(bidderB.account.address);
+      const timeline = indexer.timelineFor(bidder);
+      assert.deepEqual(
+        timeline.map((event) => [event.eventName, event.amount]),
+        [
+          ["BidCommitted", 50n],
+          ["BidRevealed", 20n],
+          ["AuctionFinalized", 20n],
+          ["BidRefunded", 30n],
+        ]
+      );
+      assert.ok(timeline.every((event) => event.timestamp > 0n));
+      assert.deepEqual(indexer.revealRates(), [
+        { auction: getAddress(deployed.address), committed: 2, revealed: 1, rate: 0.5 },
+      ]);
+
+      // A second indexer reads the same file and has nothing left to fetch.
+      const reopened = await AuctionIndexer.connect(viem, { store });
+      assert.equal((await reopened.sync([deployed.address])).added.length, 0);
+      assert.deepEqual(reopened.timelineFor(bidder), timeline);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("Should drop and re-read events from reorged blocks", async function () {
+    const { viem } = await hre.network.connect();
+    const testClient = await viem.getTestClient();
+    const [owner, bidderA, bidderB, bidderC] = await viem.getWalletClients();
+    const deployed = await viem.deployContract("SealedBidAuction", [
+      60n,
+      60n,
+      owner.account.address,
+    ]);
+    const client = await AuctionClient.connect(viem, deployed.address);
+    const indexer = await AuctionIndexer.connect(viem, { store: new MemoryIndexStore() });
+
+    await client.commit(bidderA.account, 10n, "reorg-a", 50n);
+    const snapshot = await testClient.snapshot();
+    await client.commit(bidderB.account, 20n, "reorg-b", 50n);
+    await indexer.sync([deployed.address]);
+    assert.equal(indexer.getEvents().length, 2);
+
+    // Replace the block holding B's commit with one holding C's.
+    await testClient.revert({ id: snapshot });
+    await client.commit(bidderC.account, 30n, "reorg-c", 50n);
+
+    const { added, removed } = await indexer.sync([deployed.address]);
+    assert.deepEqual(
+      removed.map((event) => event.account),
+      [getAddress(bidderB.account.address)]
+    );
+    assert.deepEqual(
+      added.map((event) => event.account),
+      [getAddress(bidderC.account.address)]
+    );
+    assert.deepEqual(
+      indexer.getEvents().map((event) => event.account),
+      [getAddress(bidderA.account.address), getAddress(bidderC.account.address)]
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre from "hardhat";
+import { keccak256, parseEther } from "viem";
+import type { Hex } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { AuctionClient } from "../scripts/auction-client.js";
+import {
+  BidderSigners,
+  KeystoreDecryptionError,
+  KeystorePasswordMissingError,
+  decryptKeystore,
+  signerOptionsFromEnv,
+} from "../scripts/bid-signers.js";
+
+// Test vector from the Web3 Secret Storage definition, password "testpassword".
+const PRIVATE_KEY = "0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d";
+const PBKDF2_KEYSTORE = {
+  crypto: {
+    cipher: "aes-128-ctr",
+    cipherparams: { iv: "6087dab2f9fdbbfaddc31a909735c1e6" },
+    ciphertext: "5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46",
+    kdf: "pbkdf2",
+    kdfparams: {
+      c: 262144,
+      dklen: 32,
+      prf: "hmac-sha256",
+      salt: "ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd",
+    },
+    mac: "517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2",
+  },
+  id: "3198bc9c-6672-5ab3-d995-4942343ae5b6",
+  version: 3,
+};
+
+/** A keystore as geth writes it (scrypt, r = 8), with a smaller N to keep the test fast. */
+function scryptKeystore(privateKey: Hex, password: string) {
+  const salt = crypto.randomBytes(32);
+  const iv = crypto.randomBytes(16);
+  const derivedKey = crypto.scryptSync(password, salt, 32, { N: 4096, r: 8, p: 1 });
+  const cipher = crypto.createCipheriv("aes-128-ctr", derivedKey.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.from(privateKey.slice(2), "hex")),
+    cipher.final(),
+  ]);
+  return {
+    crypto: {
+      cipher: "aes-128-ctr",
+      cipherparams: { iv: iv.toString("hex") },
+      ciphertext: ciphertext.toString("hex"),
+      kdf: "scrypt",
+      kdfparams: { dklen: 32, n: 4096, r: 8, p: 1, salt: salt.toString("hex") },
+      mac: keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext])).slice(2),
+    },
+    version: 3,
+  };
+}
+
+function writeKeystore(keystore: object): string {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "keystore-")), "key.json");
+  fs.writeFileSync(file, JSON.stringify(keystore));
+  return file;
+}
+
+describe("BidSigners", async function () {
+  it("Should decrypt scrypt and pbkdf2 keystores", async function () {
+    const pbkdf2 = writeKeystore(PBKDF2_KEYSTORE);
+    assert.equal(decryptKeystore(pbkdf2, "testpassword"), PRIVATE_KEY);
+    const scrypt = writeKeystore(scryptKeystore(PRIVATE_KEY, "testpassword"));
+    assert.equal(decryptKeystore(scrypt, "testpassword"), PRIVATE_KEY);
+
+    assert.throws(() => decryptKeystore(pbkdf2, "wrong"), KeystoreDecryptionError);
+    assert.throws(() => decryptKeystore(scrypt, "wrong"), KeystoreDecryptionError);
+    assert.throws(
+      () => decryptKeystore(writeKeystore({ ...PBKDF2_KEYSTORE, version: 1 }), "testpassword"),
+      KeystoreDecryptionError
+    );
+  });
+
+  it("Should read keys and keystores from the environment", async function () {
+    const { viem } = await hre.network.connect();
+    const options = signerOptionsFromEnv({
+      AUCTION_BIDDER_KEYS: ` ${PRIVATE_KEY} ,`,
+      AUCTION_BIDDER_KEYSTORES: writeKeystore(PBKDF2_KEYSTORE),
+    });
+    assert.deepEqual(options.privateKeys, [PRIVATE_KEY]);
+
+    await assert.rejects(BidderSigners.load(viem, options), KeystorePasswordMissingError);
+    await assert.rejects(
+      BidderSigners.load(viem, { privateKeys: ["0x1234"] }),
+      /Invalid private key #1 in AUCTION_BIDDER_KEYS/
+    );
+    const signers = await BidderSigners.load(viem, {
+      ...options,
+      keystorePassword: "testpassword",
+    });
+    const address = privateKeyToAccount(PRIVATE_KEY).address;
+    assert.equal(signers.find(address.toLowerCase())?.address, address);
+  });
+
+  it("Should reveal by the bid's address with a key the node does not hold", async function () {
+    const { viem } = await hre.network.connect();
+    const [owner] = await viem.getWalletClients();
+    const outsiderKey = generatePrivateKey();
+    const outsider = privateKeyToAccount(outsiderKey);
+    await owner.sendTransaction({ to: outsider.address, value: parseEther("1") });
+
+    const deployed = await viem.deployContract("SealedBidAuction", [
+      60n,
+      60n,
+      owner.account.address,
+    ]);
+    const client = await AuctionClient.connect(viem, deployed.address);
+    await client.commit(outsider, 10n, "outsider", 50n);
+
+    const testClient = await viem.getTestClient();
+    await testClient.increaseTime({ seconds: 61 });
+    await testClient.mine({ blocks: 1 });
+
+    assert.equal((await BidderSigners.load(viem, {})).find(outsider.address), undefined);
+
+    const signer = (await BidderSigners.load(viem, { privateKeys: [outsiderKey] })).find(
+      outsider.address
+    );
+    assert.ok(signer !== undefined);
+    await client.reveal(signer, 10n, "outsider");
+    assert.equal(await client.getBidderState(outsider.address), "revealed");
+  });
+});
@@ -0,0 +1,186 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre from "hardhat";
+import { AuctionClient } from "../scripts/auction-client.js";
+import {
+  BidderAlreadyCommittedError,
+  CommitPhaseEndedError,
+} from "../scripts/auction-errors.js";
+import {
+  BidAlreadyStoredError,
+  BidVault,
+  VaultDecryptionError,
+  VaultPassphraseMissingError,
+  commitAndSave,
+  migratePlaintextBids,
+  type Bid,
+} from "../scripts/bid-vault.js";
+
+const AUCTION = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+const BIDDER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const PASSPHRASE = "correct horse battery staple";
+
+const BID: Bid = {
+  bidderIndex: 0,
+  address: BIDDER,
+  bidAmount: "1000000000000000000",
+  deposit: "5000000000000000000",
+  secret: "secret_0_1767225600000_abc123",
+  commitment: "0x1c8aff950685c2ed4bc3174f3472287b56d9517b9c948127319a09a7a36deac8",
+};
+
+function makeVaultDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "auction-vault-"));
+}
+
+describe("BidVault", async function () {
+  it("Should round-trip a bid without writing the secret in plaintext", async function () {
+    const vault = new BidVault(31337, AUCTION, { dir: makeVaultDir(), passphrase: PASSPHRASE });
+    vault.save(BID);
+
+    const raw = fs.readFileSync(vault.fileFor(BIDDER), "utf-8");
+    assert.ok(!raw.includes(BID.secret));
+    assert.ok(!raw.includes(BID.bidAmount));
+
+    assert.deepEqual(vault.load(BIDDER.toLowerCase()), BID);
+    assert.deepEqual(vault.list(), [BID]);
+  });
+
+  it("Should reject the wrong passphrase", async function () {
+    const dir = makeVaultDir();
+    new BidVault(31337, AUCTION, { dir, passphrase: PASSPHRASE }).save(BID);
+
+    const vault = new BidVault(31337, AUCTION, { dir, passphrase: "wrong" });
+    assert.throws(() => vault.load(BIDDER), VaultDecryptionError);
+  });
+
+  it("Should require a passphrase", async function () {
+    const previous = process.env.AUCTION_VAULT_PASSPHRASE;
+    delete process.env.AUCTION_VAULT_PASSPHRASE;
+    try {
+      assert.throws(
+        () => new BidVault(31337, AUCTION, { dir: makeVaultDir() }),
+        VaultPassphraseMissingError
+      );
+    } finally {
+      if (previous !== undefined) {
+        process.env.AUCTION_VAULT_PASSPHRASE = previous;
+      }
+    }
+  });
+
+  it("Should migrate a plaintext bids file and remove it", async function () {
+    const dir = makeVaultDir();
+    const plaintextFile = path.join(dir, ".auction-bids.json");
+    const { deposit, ...legacyBid } = BID;
+    fs.writeFileSync(plaintextFile, JSON.stringify([legacyBid], null, 2));
+
+    const vault = new BidVault(31337, AUCTION, { dir, passphrase: PASSPHRASE });
+    const migrated = migratePlaintextBids(vault, plaintextFile);
+
+    assert.equal(migrated.length, 1);
+    assert.equal(fs.existsSync(plaintextFile), false);
+    assert.deepEqual(vault.load(BIDDER), { ...legacyBid, deposit: "0" });
+  });
+
+  it("Should store a bid as pending before its commit is mined", async function () {
+    const { viem } = await hre.network.connect();
+    const testClient = await viem.getTestClient();
+    const [owner, bidder, late] = await viem.getWalletClients();
+    const deployed = await viem.deployContract("SealedBidAuction", [
+      60n,
+      60n,
+      owner.account.address,
+    ]);
+    const auction = await AuctionClient.connect(viem, deployed.address);
+    const vault = new BidVault(31337, auction.address, {
+      dir: makeVaultDir(),
+      passphrase: PASSPHRASE,
+    });
+    const bid = { bidderIndex: 1, bidAmount: 10n, deposit: 50n, secret: "pending" };
+
+    // Nothing is mined until the record has been checked.
+    await testClient.setAutomine(false);
+    const committing = commitAndSave(auction, vault, bidder.account, bid);
+    try {
+      while (!fs.existsSync(vault.fileFor(bidder.account.address))) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      assert.equal(vault.load(bidder.account.address)?.pending, true);
+    } finally {
+      await testClient.setAutomine(true);
+    }
+    await testClient.mine({ blocks: 1 });
+    const { commitment } = await committing;
+    const stored = vault.load(bidder.account.address);
+    assert.equal(stored?.pending, undefined);
+    assert.equal(stored?.commitment, commitment);
+
+    // A second commit is refused without touching the stored secret.
+    await assert.rejects(
+      commitAndSave(auction, vault, bidder.account, { ...bid, secret: "other" }),
+      BidderAlreadyCommittedError
+    );
+    assert.equal(vault.load(bidder.account.address)?.secret, "pending");
+
+    // A commit the contract refuses leaves no record behind.
+    await testClient.increaseTime({ seconds: 61 });
+    await testClient.mine({ blocks: 1 });
+    await assert.rejects(commitAndSave(auction, vault, late.account, bid), CommitPhaseEndedError);
+    assert.equal(vault.load(late.account.address), undefined);
+  });
+
+  it("Should keep a pending bid's secret when the commit is run again", async function () {
+    const { viem } = await hre.network.connect();
+    const testClient = await viem.getTestClient();
+    const publicClient = await viem.getPublicClient();
+    const [owner, bidder] = await viem.getWalletClients();
+    const deployed = await viem.deployContract("SealedBidAuction", [
+      60n,
+      60n,
+      owner.account.address,
+    ]);
+    const auction = await AuctionClient.connect(viem, deployed.address);
+    const dir = makeVaultDir();
+    const vault = new BidVault(31337, auction.address, { dir, passphrase: PASSPHRASE });
+    const bid = { bidderIndex: 1, bidAmount: 10n, deposit: 50n, secret: "in-flight" };
+
+    await testClient.setAutomine(false);
+    const committing = commitAndSave(auction, vault, bidder.account, bid);
+    try {
+      // Wait until the first commit is sent but not mined.
+      while (
+        (await publicClient.getTransactionCount({
+          address: bidder.account.address,
+          blockTag: "pending",
+        })) === 0
+      ) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+
+      const rerun = { ...bid, secret: "rerun" };
+      await assert.rejects(
+        commitAndSave(auction, vault, bidder.account, rerun),
+        BidAlreadyStoredError
+      );
+      // Another file does not help: the bidder's vault record already exists.
+      await assert.rejects(
+        commitAndSave(auction, vault, bidder.account, rerun, path.join(dir, "other.json")),
+        BidAlreadyStoredError
+      );
+      assert.equal(fs.existsSync(path.join(dir, "other.json")), false);
+    } finally {
+      await testClient.setAutomine(true);
+    }
+    await testClient.mine({ blocks: 1 });
+    const { commitment } = await committing;
+
+    const stored = vault.load(bidder.account.address);
+    assert.equal(stored?.secret, "in-flight");
+    assert.equal(stored?.commitment, commitment);
+    assert.equal(await deployed.read.getCommitment([bidder.account.address]), commitment);
+  });
+});
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import hre from "hardhat";
+import { AuctionClient } from "../scripts/auction-client.js";
+import { deriveSecret, generateSecret } from "../scripts/commit-reveal-utils.js";
+
+const OTHER_AUCTION = "0x0000000000000000000000000000000000000bad";
+
+describe("commit-reveal-utils", async function () {
+  it("Should generate distinct 32-byte secrets", async function () {
+    const secrets = new Set(Array.from({ length: 20 }, () => generateSecret()));
+    assert.equal(secrets.size, 20);
+    for (const secret of secrets) {
+      assert.match(secret, /^0x[0-9a-f]{64}$/);
+    }
+  });
+
+  it("Should derive the same secret per bidder and auction", async function () {
+    const { viem } = await hre.network.connect();
+    const [owner, bidderA, bidderB] = await viem.getWalletClients();
+    const deployed = await viem.deployContract("SealedBidAuction", [
+      60n,
+      60n,
+      owner.account.address,
+    ]);
+
+    const secret = await deriveSecret(bidderA, deployed.address);
+    assert.equal(await deriveSecret(bidderA, deployed.address), secret);
+    assert.notEqual(await deriveSecret(bidderB, deployed.address), secret);
+    assert.notEqual(await deriveSecret(bidderA, OTHER_AUCTION), secret);
+  });
+
+  it("Should reveal with a re-derived secret", async function () {
+    const { viem } = await hre.network.connect();
+    const [owner, bidder] = await viem.getWalletClients();
+    const deployed = await viem.deployContract("SealedBidAuction", [
+      60n,
+      60n,
+      owner.account.address,
+    ]);
+    const client = await AuctionClient.connect(viem, deployed.address);
+
+    await client.commit(bidder.account, 7n, await deriveSecret(bidder, deployed.address));
+
+    const testClient = await viem.getTestClient();
+    await testClient.increaseTime({ seconds: 61 });
+    await testClient.mine({ blocks: 1 });
+
+    await client.reveal(bidder.account, 7n, await deriveSecret(bidder, deployed.address));
+    assert.equal(await deployed.read.getRevealedBid([bidder.account.address]), 7n);
+  });
+});
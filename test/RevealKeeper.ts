@@ -0,0 +1,190 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it } from "node:test";
+import hre from "hardhat";
+import { getAddress } from "viem";
+import type { WalletClient } from "@nomicfoundation/hardhat-viem/types";
+import { AuctionClient } from "../scripts/auction-client.js";
+import { BidderSigners } from "../scripts/bid-signers.js";
+import { BidVault } from "../scripts/bid-vault.js";
+import { RevealKeeper } from "../scripts/reveal-keeper.js";
+import type { KeeperLogEntry } from "../scripts/reveal-keeper.js";
+
+type Viem = Awaited<ReturnType<typeof hre.network.connect>>["viem"];
+
+async function increaseTime(viem: Viem, seconds: bigint) {
+  const testClient = await viem.getTestClient();
+  await testClient.increaseTime({ seconds: Number(seconds) });
+  await testClient.mine({ blocks: 1 });
+}
+
+async function waitFor(condition: () => boolean) {
+  while (!condition()) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+/** Commits a bid through the client and stores it in the vault, as `auction commit` does. */
+async function commitToVault(
+  client: AuctionClient,
+  vault: BidVault,
+  wallet: WalletClient,
+  bidderIndex: number,
+  bidAmount: bigint
+) {
+  const secret = `keeper-${bidderIndex}`;
+  const { commitment, deposit } = await client.commit(wallet.account, bidAmount, secret, 50n);
+  vault.save({
+    bidderIndex,
+    address: wallet.account.address,
+    bidAmount: bidAmount.toString(),
+    deposit: deposit.toString(),
+    secret,
+    commitment,
+  });
+}
+
+function makeVault(auction: AuctionClient): BidVault {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "auction-vault-"));
+  return new BidVault(31337, auction.address, { dir, passphrase: "keeper" });
+}
+
+describe("RevealKeeper", async function () {
+  it("Should reveal every vault bid after the commit phase, then finalize", async function () {
+    const { viem } = await hre.network.connect();
+    const [owner, bidderA, bidderB, bidderC] = await viem.getWalletClients();
+    const deployed = await viem.deployContract("SealedBidAuction", [
+      60n,
+      60n,
+      owner.account.address,
+    ]);
+    const client = await AuctionClient.connect(viem, deployed.address);
+    const vault = makeVault(client);
+
+    await commitToVault(client, vault, bidderA, 1, 10n);
+    await commitToVault(client, vault, bidderB, 2, 20n);
+    await commitToVault(client, vault, bidderC, 3, 30n);
+
+    const log: KeeperLogEntry[] = [];
+    const keeper = new RevealKeeper(client, vault, {
+      // C's key is not available to the keeper.
+      signers: new BidderSigners([bidderA.account, bidderB.account]),
+      finalizer: owner.account,
+      pollInterval: 20,
+      log: (entry) => log.push(entry),
+    });
+    const running = keeper.run();
+
+    await waitFor(() => log.some((entry) => entry.event === "waiting"));
+    assert.equal(log.filter((entry) => entry.event === "sent").length, 0);
+
+    await increaseTime(viem, 61n);
+    await waitFor(() => log.filter((entry) => entry.event === "done").length === 3);
+    await increaseTime(viem, 61n);
+    const summary = await running;
+
+    assert.equal(summary.cancelled, false);
+    assert.deepEqual(
+      summary.reveals.map(({ bidder, status }) => [bidder, status]),
+      [
+        [getAddress(bidderA.account.address), "revealed"],
+        [getAddress(bidderB.account.address), "revealed"],
+        [getAddress(bidderC.account.address), "no-signer"],
+      ]
+    );
+    assert.equal(summary.finalize?.status, "finalized");
+    assert.equal(await client.getPhase(), "finalized");
+    assert.equal(getAddress(await deployed.read.winner()), getAddress(bidderB.account.address));
+
+    // Run again: nothing is left to do, and nothing is sent.
+    const rerun = await new RevealKeeper(client, vault, {
+      signers: new BidderSigners([bidderA.account, bidderB.account]),
+      finalizer: owner.account,
+    }).run();
+    assert.deepEqual(
+      rerun.reveals.map(({ status }) => status),
+      ["already-revealed", "already-revealed", "no-signer"]
+    );
+    assert.equal(rerun.finalize?.status, "already-finalized");
+  });
+
+  it("Should replace a stuck reveal with higher fees", async function () {
+    const { viem } = await hre.network.connect();
+    const testClient = await viem.getTestClient();
+    const [owner, bidder] = await viem.getWalletClients();
+    const deployed = await viem.deployContract("SealedBidAuction", [
+      60n,
+      60n,
+      owner.account.address,
+    ]);
+    const client = await AuctionClient.connect(viem, deployed.address);
+    const vault = makeVault(client);
+    await commitToVault(client, vault, bidder, 1, 10n);
+    await increaseTime(viem, 61n);
+
+    // Nothing is mined until the keeper has replaced its first send.
+    await testClient.setAutomine(false);
+    const log: KeeperLogEntry[] = [];
+    const running = new RevealKeeper(client, vault, {
+      signers: new BidderSigners([bidder.account]),
+      receiptTimeout: 300,
+      pollInterval: 20,
+      log: (entry) => log.push(entry),
+    }).run();
+
+    const sent = () => log.filter((entry) => entry.event === "sent");
+    try {
+      await waitFor(() => sent().length === 2);
+      await testClient.mine({ blocks: 1 });
+      const summary = await running;
+
+      const [first, replacement] = sent();
+      assert.equal(replacement.nonce, first.nonce);
+      const bumped = ((first.maxFeePerGas as bigint) * 120n) / 100n;
+      assert.ok((replacement.maxFeePerGas as bigint) >= bumped);
+      assert.ok(log.some((entry) => entry.event === "timed-out"));
+      assert.equal(summary.reveals[0].status, "revealed");
+      assert.equal(summary.reveals[0].attempts, 2);
+      assert.equal(summary.reveals[0].transactionHash, replacement.transactionHash);
+      assert.equal(await client.getBidderState(bidder.account.address), "revealed");
+    } finally {
+      await testClient.setAutomine(true);
+    }
+  });
+
+  it("Should wait out a pause and reveal once the auction is unpaused", async function () {
+    const { viem } = await hre.network.connect();
+    const [owner, bidder] = await viem.getWalletClients();
+    const deployed = await viem.deployContract("SealedBidAuction", [
+      60n,
+      60n,
+      owner.account.address,
+    ]);
+    const client = await AuctionClient.connect(viem, deployed.address);
+    const vault = makeVault(client);
+    await commitToVault(client, vault, bidder, 1, 10n);
+    await increaseTime(viem, 61n);
+    await client.pause(owner.account);
+
+    const log: KeeperLogEntry[] = [];
+    const running = new RevealKeeper(client, vault, {
+      signers: new BidderSigners([bidder.account]),
+      pollInterval: 20,
+      log: (entry) => log.push(entry),
+    }).run();
+
+    await waitFor(() => log.some((entry) => entry.event === "paused"));
+    // Paused past the original reveal end: unpausing gives that time back.
+    await increaseTime(viem, 600n);
+    assert.equal(log.filter((entry) => entry.event === "sent").length, 0);
+    await client.unpause(owner.account);
+    const summary = await running;
+
+    assert.equal(summary.reveals[0].status, "revealed");
+    assert.equal(summary.reveals[0].attempts, 1);
+    assert.equal(log.filter((entry) => entry.event === "error").length, 0);
+    assert.equal(await client.getBidderState(bidder.account.address), "revealed");
+  });
+});
@@ -1,7 +1,28 @@
 import assert from "node:assert/strict";
 import { describe, it } from "node:test";
 import hre from "hardhat";
-import { keccak256, encodePacked } from "viem";
+import { keccak256, encodePacked, getAddress, zeroAddress } from "viem";
+import type { Address } from "viem";
+import { checkAllocation, findTieLosses } from "../scripts/allocation.js";
+import { AuctionClient } from "../scripts/auction-client.js";
+import type { PricingMode, TieBreak } from "../scripts/auction-client.js";
+
+// Default chain id of the in-process Hardhat network.
+const CHAIN_ID = 31337n;
+
+function commitmentFor(
+  auction: Address,
+  bidder: Address,
+  bidAmount: bigint,
+  secret: string
+): `0x${string}` {
+  return keccak256(
+    encodePacked(
+      ["uint256", "address", "address", "uint256", "string"],
+      [CHAIN_ID, auction, bidder, bidAmount, secret]
+    )
+  );
+}
 
 async function increaseTime(seconds: bigint) {
   const { viem } = await hre.network.connect();
@@ -42,10 +63,16 @@ describe("SealedBidAuction", async function () {
 
       console.log("\n2. Commit Phase - 5 bidders submitting hashed commitments...");
       for (const bid of bids) {
-        const commitment = keccak256(
-          encodePacked(["uint256", "string"], [bid.amount, bid.secret])
-        ) as `0x${string}`;
-        await auction.write.commitBid([commitment], { account: bid.wallet.account });
+        const commitment = commitmentFor(
+          auction.address,
+          bid.wallet.account.address,
+          bid.amount,
+          bid.secret
+        );
+        await auction.write.commitBid([commitment], {
+          account: bid.wallet.account,
+          value: bid.amount,
+        });
         console.log(`   ${bid.wallet.account.address.slice(0, 15)}... committed: ${bid.amount} ETH`);
       }
 
@@ -116,10 +143,16 @@ describe("SealedBidAuction", async function () {
 
       console.log("\nCommit Phase (10 bidders):");
       for (const bid of bids) {
-        const commitment = keccak256(
-          encodePacked(["uint256", "string"], [bid.amount, bid.secret])
-        ) as `0x${string}`;
-        await auction.write.commitBid([commitment], { account: bid.wallet.account });
+        const commitment = commitmentFor(
+          auction.address,
+          bid.wallet.account.address,
+          bid.amount,
+          bid.secret
+        );
+        await auction.write.commitBid([commitment], {
+          account: bid.wallet.account,
+          value: bid.amount,
+        });
       }
       console.log("All 10 bids committed!");
 
@@ -168,15 +201,27 @@ describe("SealedBidAuction", async function () {
       const lowAmount = 10n;
 
       console.log("Committing bids...");
-      const highCommitment = keccak256(
-        encodePacked(["uint256", "string"], [highAmount, "high-s"])
-      ) as `0x${string}`;
-      const lowCommitment = keccak256(
-        encodePacked(["uint256", "string"], [lowAmount, "low-s"])
-      ) as `0x${string}`;
-
-      await auction.write.commitBid([highCommitment], { account: highBidder.account });
-      await auction.write.commitBid([lowCommitment], { account: lowBidder.account });
+      const highCommitment = commitmentFor(
+        auction.address,
+        highBidder.account.address,
+        highAmount,
+        "high-s"
+      );
+      const lowCommitment = commitmentFor(
+        auction.address,
+        lowBidder.account.address,
+        lowAmount,
+        "low-s"
+      );
+
+      await auction.write.commitBid([highCommitment], {
+        account: highBidder.account,
+        value: highAmount,
+      });
+      await auction.write.commitBid([lowCommitment], {
+        account: lowBidder.account,
+        value: lowAmount,
+      });
 
       await increaseTime(2n);
 
@@ -218,10 +263,16 @@ describe("SealedBidAuction", async function () {
 
       console.log("Committing bids...");
       for (const tc of testCases) {
-        const commitment = keccak256(
-          encodePacked(["uint256", "string"], [tc.amount, tc.secret])
-        ) as `0x${string}`;
-        await auction.write.commitBid([commitment], { account: tc.wallet.account });
+        const commitment = commitmentFor(
+          auction.address,
+          tc.wallet.account.address,
+          tc.amount,
+          tc.secret
+        );
+        await auction.write.commitBid([commitment], {
+          account: tc.wallet.account,
+          value: tc.amount,
+        });
       }
 
       await increaseTime(2n);
@@ -251,10 +302,13 @@ describe("SealedBidAuction", async function () {
 
       const correctAmount = 100n;
       const correctSecret = "my-secret";
-      const commitment = keccak256(
-        encodePacked(["uint256", "string"], [correctAmount, correctSecret])
-      ) as `0x${string}`;
-      await auction.write.commitBid([commitment]);
+      const commitment = commitmentFor(
+        auction.address,
+        walletClient.account.address,
+        correctAmount,
+        correctSecret
+      );
+      await auction.write.commitBid([commitment], { value: correctAmount });
 
       await increaseTime(2n);
 
@@ -306,9 +360,12 @@ describe("SealedBidAuction", async function () {
       for (let i = 0; i < bidders.length; i++) {
         const bidAmount = BigInt((i + 1) * 10);
         const secret = `secret-${i}`;
-        const commitment = keccak256(
-          encodePacked(["uint256", "string"], [bidAmount, secret])
-        ) as `0x${string}`;
+        const commitment = commitmentFor(
+          auction.address,
+          bidders[i].account.address,
+          bidAmount,
+          secret
+        );
         await auction.write.commitBid([commitment], { account: bidders[i].account });
         console.log(`   Bidder ${i + 1}: committed ${bidAmount} ETH`);
       }
@@ -330,9 +387,12 @@ describe("SealedBidAuction", async function () {
 
       const bidAmount = 50n;
       const secret = "unique-secret";
-      const commitment = keccak256(
-        encodePacked(["uint256", "string"], [bidAmount, secret])
-      ) as `0x${string}`;
+      const commitment = commitmentFor(
+        auction.address,
+        walletClient.account.address,
+        bidAmount,
+        secret
+      );
 
       await auction.write.commitBid([commitment]);
 
@@ -358,9 +418,12 @@ describe("SealedBidAuction", async function () {
 
       const bidAmount = 42n;
       const secret = "track-state-secret";
-      const commitment = keccak256(
-        encodePacked(["uint256", "string"], [bidAmount, secret])
-      ) as `0x${string}`;
+      const commitment = commitmentFor(
+        auction.address,
+        walletClient.account.address,
+        bidAmount,
+        secret
+      );
 
       const hasCommittedBefore = await auction.read.hasCommitted([walletClient.account.address]);
       assert.ok(!hasCommittedBefore);
@@ -386,11 +449,14 @@ describe("SealedBidAuction", async function () {
 
       const bidAmount = 77n;
       const secret = "reveal-test-secret";
-      const commitment = keccak256(
-        encodePacked(["uint256", "string"], [bidAmount, secret])
-      ) as `0x${string}`;
+      const commitment = commitmentFor(
+        auction.address,
+        walletClient.account.address,
+        bidAmount,
+        secret
+      );
 
-      await auction.write.commitBid([commitment]);
+      await auction.write.commitBid([commitment], { value: bidAmount });
       await increaseTime(2n);
       await auction.write.revealBid([bidAmount, secret]);
 
@@ -423,10 +489,16 @@ describe("SealedBidAuction", async function () {
       ];
 
       for (const bid of bids) {
-        const commitment = keccak256(
-          encodePacked(["uint256", "string"], [bid.amount, bid.secret])
-        ) as `0x${string}`;
-        await auction.write.commitBid([commitment], { account: bid.wallet.account });
+        const commitment = commitmentFor(
+          auction.address,
+          bid.wallet.account.address,
+          bid.amount,
+          bid.secret
+        );
+        await auction.write.commitBid([commitment], {
+          account: bid.wallet.account,
+          value: bid.amount,
+        });
       }
 
       await increaseTime(2n);
@@ -460,9 +532,12 @@ describe("SealedBidAuction", async function () {
       const bidAmount = 1n;
       const secret = "test-secret";
 
-      const commitment = keccak256(
-        encodePacked(["uint256", "string"], [bidAmount, secret])
-      ) as `0x${string}`;
+      const commitment = commitmentFor(
+        auction.address,
+        walletClient.account.address,
+        bidAmount,
+        secret
+      );
 
       await auction.write.commitBid([commitment]);
 
@@ -474,6 +549,53 @@ describe("SealedBidAuction", async function () {
       assert.equal(storedCommitment, commitment);
     });
 
+    it("Should reject a commitment copied from another bidder", async function () {
+      const { viem } = await hre.network.connect();
+      const [owner, victim, copier] = await viem.getWalletClients();
+
+      const auction = await viem.deployContract("SealedBidAuction", [
+        60n,
+        60n,
+        owner.account.address,
+      ]);
+
+      const bidAmount = 40n;
+      const secret = "victim-secret";
+      const commitment = commitmentFor(auction.address, victim.account.address, bidAmount, secret);
+
+      await auction.write.commitBid([commitment], { account: victim.account, value: bidAmount });
+      await auction.write.commitBid([commitment], { account: copier.account, value: bidAmount });
+
+      const testClient = await viem.getTestClient();
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+
+      await assert.rejects(
+        auction.write.revealBid([bidAmount, secret], { account: copier.account }),
+        /CommitmentMismatch/
+      );
+
+      await auction.write.revealBid([bidAmount, secret], { account: victim.account });
+      assert.equal(await auction.read.getRevealedBid([victim.account.address]), bidAmount);
+      assert.equal(await auction.read.hasRevealed([copier.account.address]), false);
+    });
+
+    it("Should match the on-chain computeCommitment", async function () {
+      const { viem } = await hre.network.connect();
+      const [walletClient] = await viem.getWalletClients();
+
+      const auction = await viem.deployContract("SealedBidAuction", [
+        7n * 24n * 60n * 60n,
+        3n * 24n * 60n * 60n,
+        walletClient.account.address,
+      ]);
+
+      assert.equal(
+        await auction.read.computeCommitment([walletClient.account.address, 5n, "s"]),
+        commitmentFor(auction.address, walletClient.account.address, 5n, "s")
+      );
+    });
+
     it("Should reject commitment with zero hash", async function () {
       const { viem } = await hre.network.connect();
       const [walletClient] = await viem.getWalletClients();
@@ -510,9 +632,12 @@ describe("SealedBidAuction", async function () {
       ];
 
       for (const testCase of testCases) {
-        const commitment = keccak256(
-          encodePacked(["uint256", "string"], [testCase.bidAmount, testCase.secret])
-        ) as `0x${string}`;
+        const commitment = commitmentFor(
+          auction.address,
+          testCase.wallet.account.address,
+          testCase.bidAmount,
+          testCase.secret
+        );
 
         await auction.write.commitBid([commitment], {
           account: testCase.wallet.account
@@ -527,27 +652,1193 @@ describe("SealedBidAuction", async function () {
     });
   });
 
-  describe("Edge Cases", async function () {
-    it("Should handle zero bid", async function () {
+  describe("Escrow", async function () {
+    it("Should escrow deposits and reject bids above them", async function () {
       const { viem } = await hre.network.connect();
-      const [walletClient] = await viem.getWalletClients();
+      const [owner, bidder] = await viem.getWalletClients();
+      const publicClient = await viem.getPublicClient();
 
       const auction = await viem.deployContract("SealedBidAuction", [
-        7n * 24n * 60n * 60n,
-        3n * 24n * 60n * 60n,
-        walletClient.account.address,
+        60n,
+        60n,
+        owner.account.address,
       ]);
 
-      const bidAmount = 0n;
-      const secret = "zero-bid-secret";
-      const commitment = keccak256(
-        encodePacked(["uint256", "string"], [bidAmount, secret])
-      ) as `0x${string}`;
+      const commitment = commitmentFor(auction.address, bidder.account.address, 30n, "over");
+      await auction.write.commitBid([commitment], { account: bidder.account, value: 20n });
 
-      await auction.write.commitBid([commitment]);
+      assert.equal(await auction.read.getDeposit([bidder.account.address]), 20n);
+      assert.equal(await publicClient.getBalance({ address: auction.address }), 20n);
 
-      const storedCommitment = await auction.read.getCommitment([walletClient.account.address]);
-      assert.equal(storedCommitment, commitment);
+      const testClient = await viem.getTestClient();
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+
+      await assert.rejects(
+        auction.write.revealBid([30n, "over"], { account: bidder.account }),
+        /InsufficientDeposit/
+      );
+    });
+
+    it("Should settle the winning bid and refund the rest", async function () {
+      const { viem } = await hre.network.connect();
+      const [owner, winner, loser] = await viem.getWalletClients();
+      const publicClient = await viem.getPublicClient();
+
+      const auction = await viem.deployContract("SealedBidAuction", [
+        60n,
+        60n,
+        owner.account.address,
+      ]);
+
+      const deposit = 1000n;
+      const bids = [
+        { wallet: winner, amount: 700n, secret: "winner-s" },
+        { wallet: loser, amount: 400n, secret: "loser-s" },
+      ];
+      for (const bid of bids) {
+        const commitment = commitmentFor(
+          auction.address,
+          bid.wallet.account.address,
+          bid.amount,
+          bid.secret
+        );
+        await auction.write.commitBid([commitment], {
+          account: bid.wallet.account,
+          value: deposit,
+        });
+      }
+
+      const testClient = await viem.getTestClient();
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+
+      for (const bid of bids) {
+        await auction.write.revealBid([bid.amount, bid.secret], { account: bid.wallet.account });
+      }
+
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+
+      await auction.write.finalizeAuction({ account: owner.account });
+      assert.equal(await auction.read.proceeds(), 700n);
+      assert.equal(await auction.read.getDeposit([winner.account.address]), 300n);
+      assert.equal(await auction.read.getDeposit([loser.account.address]), 1000n);
+
+      await auction.write.claimRefund({ account: loser.account });
+      await auction.write.claimRefund({ account: winner.account });
+      assert.equal(await publicClient.getBalance({ address: auction.address }), 700n);
+
+      await auction.write.withdraw({ account: owner.account });
+      assert.equal(await publicClient.getBalance({ address: auction.address }), 0n);
+      assert.equal(await auction.read.proceeds(), 0n);
+
+      await assert.rejects(
+        auction.write.claimRefund({ account: loser.account }),
+        /NoBidToRefund/
+      );
+      await assert.rejects(auction.write.withdraw({ account: owner.account }), /NoProceeds/);
+    });
+  });
+
+  describe("Second-Price", async function () {
+    type Viem = Awaited<ReturnType<typeof hre.network.connect>>["viem"];
+
+    // Runs a second-price auction where every bidder deposits 1000 and reveals.
+    async function runSecondPrice(viem: Viem, amounts: bigint[]) {
+      const [owner, ...wallets] = await viem.getWalletClients();
+      const auction = await viem.deployContract("SealedBidAuction", [
+        60n,
+        60n,
+        owner.account.address,
+      ]);
+      await auction.write.setPricingMode([1]);
+
+      const bidders = wallets.slice(0, amounts.length);
+      for (const [i, wallet] of bidders.entries()) {
+        const commitment = commitmentFor(
+          auction.address,
+          wallet.account.address,
+          amounts[i],
+          `vickrey-${i}`
+        );
+        await auction.write.commitBid([commitment], { account: wallet.account, value: 1000n });
+      }
+
+      const testClient = await viem.getTestClient();
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+      for (const [i, wallet] of bidders.entries()) {
+        await auction.write.revealBid([amounts[i], `vickrey-${i}`], { account: wallet.account });
+      }
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+
+      await auction.write.finalizeAuction({ account: owner.account });
+      return { auction, owner, bidders };
+    }
+
+    it("Should charge the winner the second-highest bid", async function () {
+      const { viem } = await hre.network.connect();
+      const { auction, bidders } = await runSecondPrice(viem, [400n, 700n, 250n]);
+
+      assert.equal((await auction.read.winner()).toLowerCase(), bidders[1].account.address);
+      assert.equal(await auction.read.highestBid(), 700n);
+      assert.equal(await auction.read.secondHighestBid(), 400n);
+      assert.equal(await auction.read.clearingPrice(), 400n);
+      assert.equal(await auction.read.proceeds(), 400n);
+      assert.equal(await auction.read.getDeposit([bidders[1].account.address]), 600n);
+    });
+
+    it("Should charge the full bid on a tie", async function () {
+      const { viem } = await hre.network.connect();
+      const { auction, bidders } = await runSecondPrice(viem, [500n, 500n, 100n]);
+
+      // The earlier committer wins the tie.
+      assert.equal((await auction.read.winner()).toLowerCase(), bidders[0].account.address);
+      assert.equal(await auction.read.secondHighestBid(), 500n);
+      assert.equal(await auction.read.clearingPrice(), 500n);
+      assert.equal(await auction.read.getDeposit([bidders[1].account.address]), 1000n);
+    });
+
+    it("Should charge nothing with a single bidder", async function () {
+      const { viem } = await hre.network.connect();
+      const { auction, owner, bidders } = await runSecondPrice(viem, [300n]);
+
+      assert.equal((await auction.read.winner()).toLowerCase(), bidders[0].account.address);
+      assert.equal(await auction.read.highestBid(), 300n);
+      assert.equal(await auction.read.secondHighestBid(), 0n);
+      assert.equal(await auction.read.clearingPrice(), 0n);
+      assert.equal(await auction.read.getDeposit([bidders[0].account.address]), 1000n);
+      await assert.rejects(auction.write.withdraw({ account: owner.account }), /NoProceeds/);
+    });
+
+    it("Should not change the pricing mode once bidding started", async function () {
+      const { viem } = await hre.network.connect();
+      const [owner, bidder] = await viem.getWalletClients();
+      const auction = await viem.deployContract("SealedBidAuction", [
+        60n,
+        60n,
+        owner.account.address,
+      ]);
+
+      const commitment = commitmentFor(auction.address, bidder.account.address, 10n, "mode");
+      await auction.write.commitBid([commitment], { account: bidder.account, value: 10n });
+      await assert.rejects(auction.write.setPricingMode([1]), /BiddingStarted/);
+      assert.equal(await auction.read.pricingMode(), 0);
+    });
+  });
+
+  describe("Lot", async function () {
+    it("Should transfer an ERC-721 lot to the winner on finalize", async function () {
+      const { viem } = await hre.network.connect();
+      const [owner, winner, loser] = await viem.getWalletClients();
+
+      const nft = await viem.deployContract("MockERC721");
+      const auction = await viem.deployContract("SealedBidAuction", [
+        60n,
+        60n,
+        owner.account.address,
+      ]);
+      await nft.write.mint([owner.account.address, 7n]);
+      await nft.write.approve([auction.address, 7n]);
+      await auction.write.depositLot([1, nft.address, 7n, 1n]);
+      assert.equal(
+        (await nft.read.ownerOf([7n])).toLowerCase(),
+        auction.address.toLowerCase()
+      );
+
+      const bids = [
+        { wallet: winner, amount: 700n, secret: "lot-winner" },
+        { wallet: loser, amount: 400n, secret: "lot-loser" },
+      ];
+      for (const bid of bids) {
+        const commitment = commitmentFor(
+          auction.address,
+          bid.wallet.account.address,
+          bid.amount,
+          bid.secret
+        );
+        await auction.write.commitBid([commitment], {
+          account: bid.wallet.account,
+          value: bid.amount,
+        });
+      }
+
+      const testClient = await viem.getTestClient();
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+      for (const bid of bids) {
+        await auction.write.revealBid([bid.amount, bid.secret], { account: bid.wallet.account });
+      }
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+
+      await auction.write.finalizeAuction({ account: owner.account });
+      assert.equal(
+        (await nft.read.ownerOf([7n])).toLowerCase(),
+        winner.account.address.toLowerCase()
+      );
+      assert.equal(await auction.read.proceeds(), 700n);
+
+      const client = await AuctionClient.connect(viem, auction.address);
+      assert.deepEqual(await client.getLot(), {
+        kind: "ERC721",
+        token: getAddress(nft.address),
+        id: 7n,
+        amount: 1n,
+        recipient: getAddress(winner.account.address),
+        delivered: true,
+      });
+    });
+
+    it("Should return an ERC-1155 lot to the seller when nothing is revealed", async function () {
+      const { viem } = await hre.network.connect();
+      const [owner, bidder] = await viem.getWalletClients();
+
+      const nft = await viem.deployContract("MockERC1155");
+      const auction = await viem.deployContract("SealedBidAuction", [
+        60n,
+        60n,
+        owner.account.address,
+      ]);
+      await nft.write.mint([owner.account.address, 3n, 5n]);
+      await nft.write.setApprovalForAll([auction.address, true]);
+      await auction.write.depositLot([2, nft.address, 3n, 5n]);
+      assert.equal(await nft.read.balanceOf([auction.address, 3n]), 5n);
+
+      const commitment = commitmentFor(auction.address, bidder.account.address, 10n, "silent");
+      await auction.write.commitBid([commitment], { account: bidder.account, value: 10n });
+
+      const testClient = await viem.getTestClient();
+      await testClient.increaseTime({ seconds: 121 });
+      await testClient.mine({ blocks: 1 });
+
+      await auction.write.finalizeAuction({ account: owner.account });
+      assert.equal(await nft.read.balanceOf([owner.account.address, 3n]), 5n);
+      assert.equal(await nft.read.balanceOf([auction.address, 3n]), 0n);
+      assert.equal(
+        (await auction.read.lotRecipient()).toLowerCase(),
+        owner.account.address.toLowerCase()
+      );
+    });
+
+    it("Should only accept the lot from the owner before bidding starts", async function () {
+      const { viem } = await hre.network.connect();
+      const [owner, bidder] = await viem.getWalletClients();
+
+      const nft = await viem.deployContract("MockERC721");
+      const auction = await viem.deployContract("SealedBidAuction", [
+        60n,
+        60n,
+        owner.account.address,
+      ]);
+      await nft.write.mint([owner.account.address, 1n]);
+      await nft.write.setApprovalForAll([auction.address, true]);
+
+      await assert.rejects(
+        auction.write.depositLot([1, nft.address, 1n, 1n], { account: bidder.account }),
+        /OwnableUnauthorizedAccount/
+      );
+      await assert.rejects(auction.write.depositLot([1, nft.address, 1n, 2n]), /InvalidLot/);
+
+      const commitment = commitmentFor(auction.address, bidder.account.address, 10n, "early");
+      await auction.write.commitBid([commitment], { account: bidder.account, value: 10n });
+      await assert.rejects(auction.write.depositLot([1, nft.address, 1n, 1n]), /BiddingStarted/);
+    });
+  });
+
+  describe("Reserve", async function () {
+    type Viem = Awaited<ReturnType<typeof hre.network.connect>>["viem"];
+
+    // Deploys an auction, lets `configure` set the reserve, then runs the bids
+    // through commit and reveal (every bidder deposits 1000). Reveal-phase
+    // actions such as revealReserve go in `beforeFinalize`.
+    async function runReserve(
+      viem: Viem,
+      amounts: bigint[],
+      configure: (auction: Address) => Promise<unknown>,
+      beforeFinalize: () => Promise<unknown> = async () => {}
+    ) {
+      const [owner, ...wallets] = await viem.getWalletClients();
+      const auction = await viem.deployContract("SealedBidAuction", [
+        60n,
+        60n,
+        owner.account.address,
+      ]);
+      await configure(auction.address);
+
+      const bidders = wallets.slice(0, amounts.length);
+      for (const [i, wallet] of bidders.entries()) {
+        const commitment = commitmentFor(
+          auction.address,
+          wallet.account.address,
+          amounts[i],
+          `reserve-${i}`
+        );
+        await auction.write.commitBid([commitment], { account: wallet.account, value: 1000n });
+      }
+
+      const testClient = await viem.getTestClient();
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+      for (const [i, wallet] of bidders.entries()) {
+        await auction.write.revealBid([amounts[i], `reserve-${i}`], { account: wallet.account });
+      }
+      await beforeFinalize();
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+
+      await auction.write.finalizeAuction({ account: owner.account });
+      const client = await AuctionClient.connect(viem, auction.address);
+      return { auction, client, owner, bidders };
+    }
+
+    it("Should leave the auction unsold when no bid meets a public reserve", async function () {
+      const { viem } = await hre.network.connect();
+      const { auction, client, owner, bidders } = await runReserve(
+        viem,
+        [300n, 450n],
+        async (address) => {
+          const auction = await viem.getContractAt("SealedBidAuction", address);
+          await auction.write.setReservePrice([500n]);
+        }
+      );
+
+      assert.equal(await auction.read.winner(), zeroAddress);
+      assert.equal(await auction.read.highestBid(), 450n);
+      assert.equal(await auction.read.clearingPrice(), 0n);
+      assert.equal(await auction.read.proceeds(), 0n);
+      assert.deepEqual(await client.getReserve(), { price: 500n, hidden: false });
+      await assert.rejects(auction.write.withdraw({ account: owner.account }), /NoProceeds/);
+      for (const bidder of bidders) {
+        assert.equal(await auction.read.getDeposit([bidder.account.address]), 1000n);
+      }
+    });
+
+    it("Should sell once a hidden reserve is revealed and met", async function () {
+      const { viem } = await hre.network.connect();
+      const [owner] = await viem.getWalletClients();
+      let client: AuctionClient | undefined;
+      const { auction, bidders } = await runReserve(
+        viem,
+        [300n, 450n],
+        async (address) => {
+          client = await AuctionClient.connect(viem, address);
+          await client.commitReservePrice(owner.account, 400n, "reserve-secret");
+          assert.deepEqual(await client.getReserve(), { price: 0n, hidden: true });
+        },
+        async () => {
+          await client!.revealReserve(owner.account, 400n, "reserve-secret");
+          await assert.rejects(
+            client!.revealReserve(owner.account, 400n, "reserve-secret"),
+            /ReserveAlreadyRevealed/
+          );
+        }
+      );
+
+      assert.equal((await auction.read.winner()).toLowerCase(), bidders[1].account.address);
+      assert.equal(await auction.read.clearingPrice(), 450n);
+      assert.deepEqual(await client!.getReserve(), { price: 400n, hidden: false });
+    });
+
+    it("Should leave the auction unsold when the hidden reserve is never revealed", async function () {
+      const { viem } = await hre.network.connect();
+      const [owner] = await viem.getWalletClients();
+      const { auction, client } = await runReserve(viem, [900n], async (address) => {
+        const client = await AuctionClient.connect(viem, address);
+        await client.commitReservePrice(owner.account, 1n, "forgotten");
+      });
+
+      assert.equal(await auction.read.winner(), zeroAddress);
+      assert.equal(await auction.read.proceeds(), 0n);
+      assert.deepEqual(await client.getReserve(), { price: 0n, hidden: true });
+    });
+
+    it("Should raise a second-price clearing price to the reserve", async function () {
+      const { viem } = await hre.network.connect();
+      const { auction, bidders } = await runReserve(viem, [300n, 700n], async (address) => {
+        const auction = await viem.getContractAt("SealedBidAuction", address);
+        await auction.write.setPricingMode([1]);
+        await auction.write.setReservePrice([500n]);
+      });
+
+      assert.equal((await auction.read.winner()).toLowerCase(), bidders[1].account.address);
+      assert.equal(await auction.read.secondHighestBid(), 300n);
+      assert.equal(await auction.read.clearingPrice(), 500n);
+      assert.equal(await auction.read.getDeposit([bidders[1].account.address]), 500n);
+    });
+
+    it("Should reject a wrong reveal and any reserve change once bidding started", async function () {
+      const { viem } = await hre.network.connect();
+      const [owner, bidder] = await viem.getWalletClients();
+      const auction = await viem.deployContract("SealedBidAuction", [
+        60n,
+        60n,
+        owner.account.address,
+      ]);
+      const client = await AuctionClient.connect(viem, auction.address);
+      await client.commitReservePrice(owner.account, 400n, "locked");
+
+      const commitment = commitmentFor(auction.address, bidder.account.address, 10n, "locked");
+      await auction.write.commitBid([commitment], { account: bidder.account, value: 10n });
+      await assert.rejects(auction.write.setReservePrice([1n]), /BiddingStarted/);
+      await assert.rejects(client.commitReservePrice(owner.account, 1n, "other"), /BiddingStarted/);
+
+      const testClient = await viem.getTestClient();
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+      await assert.rejects(client.revealReserve(owner.account, 399n, "locked"), /CommitmentMismatch/);
+    });
+  });
+
+  describe("Multi-Unit", async function () {
+    type Viem = Awaited<ReturnType<typeof hre.network.connect>>["viem"];
+
+    // Runs a multi-unit auction through the client, one bidder per entry.
+    // Bids are revealed in commit order unless `revealOrder` says otherwise.
+    async function runMultiUnit(
+      viem: Viem,
+      units: bigint,
+      pricing: PricingMode,
+      bids: { price: bigint; quantity: bigint }[],
+      revealOrder: number[] = bids.map((_, i) => i)
+    ) {
+      const [owner, ...wallets] = await viem.getWalletClients();
+      const auction = await viem.deployContract("SealedBidAuction", [
+        60n,
+        60n,
+        owner.account.address,
+      ]);
+      const client = await AuctionClient.connect(viem, auction.address);
+      await client.setUnits(owner.account, units);
+      await client.setPricingMode(owner.account, pricing);
+
+      const bidders = wallets.slice(0, bids.length);
+      for (const [i, wallet] of bidders.entries()) {
+        await client.commit(wallet.account, bids[i].price, `units-${i}`, 1000n, bids[i].quantity);
+      }
+
+      const testClient = await viem.getTestClient();
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+      for (const i of revealOrder) {
+        await client.reveal(bidders[i].account, bids[i].price, `units-${i}`, bids[i].quantity);
+      }
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+
+      await client.finalize(owner.account);
+      const { actual, mismatches } = await checkAllocation(client);
+      assert.deepEqual(mismatches, []);
+      return { auction, client, actual, bidders };
+    }
+
+    const BIDS = [
+      { price: 30n, quantity: 2n },
+      { price: 50n, quantity: 3n },
+      { price: 20n, quantity: 4n },
+    ];
+
+    it("Should charge each winner their own bid in pay-as-bid mode", async function () {
+      const { viem } = await hre.network.connect();
+      const { auction, actual, bidders } = await runMultiUnit(viem, 4n, "first-price", BIDS);
+
+      assert.deepEqual(actual.allocations, [
+        { bidder: getAddress(bidders[0].account.address), units: 1n, payment: 30n },
+        { bidder: getAddress(bidders[1].account.address), units: 3n, payment: 150n },
+      ]);
+      assert.equal((await auction.read.winner()).toLowerCase(), bidders[1].account.address);
+      assert.equal(await auction.read.unitsSold(), 4n);
+      assert.equal(await auction.read.proceeds(), 180n);
+      assert.equal(await auction.read.getDeposit([bidders[0].account.address]), 970n);
+      assert.equal(await auction.read.getDeposit([bidders[2].account.address]), 1000n);
+    });
+
+    it("Should charge every winner the same price in uniform mode", async function () {
+      const { viem } = await hre.network.connect();
+      const { auction, actual } = await runMultiUnit(viem, 6n, "uniform", BIDS);
+
+      assert.equal(await auction.read.clearingPrice(), 20n);
+      assert.deepEqual(
+        actual.allocations.map(({ units, payment }) => [units, payment]),
+        [
+          [2n, 40n],
+          [3n, 60n],
+          [1n, 20n],
+        ]
+      );
+      assert.equal(await auction.read.proceeds(), 120n);
+    });
+
+    it("Should rank bids the same whatever the reveal order", async function () {
+      const { viem } = await hre.network.connect();
+      const bids = [
+        { price: 40n, quantity: 2n },
+        { price: 10n, quantity: 1n },
+        { price: 40n, quantity: 2n },
+        { price: 60n, quantity: 1n },
+        { price: 30n, quantity: 3n },
+      ];
+      const inOrder = await runMultiUnit(viem, 4n, "uniform", bids);
+      const shuffled = await runMultiUnit(viem, 4n, "uniform", bids, [1, 4, 2, 3, 0]);
+
+      const winners = ({ actual, bidders }: typeof inOrder) =>
+        actual.allocations.map(({ bidder, units }) => [
+          bidders.findIndex((wallet) => getAddress(wallet.account.address) === bidder),
+          units,
+        ]);
+      // The tie at 40 goes to bidder 0, who committed first, and bidder 2 is
+      // partly filled.
+      assert.deepEqual(winners(inOrder), [
+        [0, 2n],
+        [2, 1n],
+        [3, 1n],
+      ]);
+      assert.deepEqual(winners(shuffled), winners(inOrder));
+      assert.equal(await shuffled.auction.read.clearingPrice(), 40n);
+      assert.equal(await shuffled.auction.read.secondHighestBid(), 40n);
+    });
+
+    it("Should reject a quantity above the units for sale", async function () {
+      const { viem } = await hre.network.connect();
+      const [owner, bidder] = await viem.getWalletClients();
+      const auction = await viem.deployContract("SealedBidAuction", [
+        60n,
+        60n,
+        owner.account.address,
+      ]);
+      const client = await AuctionClient.connect(viem, auction.address);
+      await client.setUnits(owner.account, 2n);
+      await client.commit(bidder.account, 10n, "greedy", 100n, 3n);
+
+      const testClient = await viem.getTestClient();
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+      await assert.rejects(client.reveal(bidder.account, 10n, "greedy", 3n), /InvalidQuantity/);
+    });
+
+    it("Should only change the units before bidding and without a lot", async function () {
+      const { viem } = await hre.network.connect();
+      const [owner, bidder] = await viem.getWalletClients();
+      const auction = await viem.deployContract("SealedBidAuction", [
+        60n,
+        60n,
+        owner.account.address,
+      ]);
+      assert.equal(await auction.read.units(), 1n);
+      await assert.rejects(auction.write.setUnits([0n]), /InvalidUnits/);
+
+      const nft = await viem.deployContract("MockERC721");
+      await nft.write.mint([owner.account.address, 1n]);
+      await nft.write.setApprovalForAll([auction.address, true]);
+      await auction.write.depositLot([1, nft.address, 1n, 1n]);
+      await assert.rejects(auction.write.setUnits([2n]), /InvalidLot/);
+
+      const commitment = commitmentFor(auction.address, bidder.account.address, 10n, "units");
+      await auction.write.commitBid([commitment], { account: bidder.account, value: 10n });
+      await assert.rejects(auction.write.setUnits([1n]), /BiddingStarted/);
+    });
+  });
+
+  describe("Non-Reveal Slashing", async function () {
+    type Viem = Awaited<ReturnType<typeof hre.network.connect>>["viem"];
+
+    // Two bidders commit 1000 each; only the first reveals.
+    async function runWithNonRevealer(viem: Viem, bountyBps = 0n) {
+      const [owner, revealer, silent, keeper] = await viem.getWalletClients();
+      const auction = await viem.deployContract("SealedBidAuction", [
+        60n,
+        60n,
+        owner.account.address,
+      ]);
+      const client = await AuctionClient.connect(viem, auction.address);
+      if (bountyBps !== 0n) {
+        await client.setSlashBounty(owner.account, bountyBps);
+      }
+      await client.commit(revealer.account, 300n, "revealer", 1000n);
+      await client.commit(silent.account, 900n, "silent", 1000n);
+
+      const testClient = await viem.getTestClient();
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+      await client.reveal(revealer.account, 300n, "revealer");
+      return { auction, client, testClient, owner, revealer, silent, keeper };
+    }
+
+    it("Should forfeit a non-revealed deposit to the owner", async function () {
+      const { viem } = await hre.network.connect();
+      const { auction, client, testClient, owner, revealer, silent, keeper } =
+        await runWithNonRevealer(viem);
+
+      await assert.rejects(
+        client.slashNonRevealers(keeper.account, [silent.account.address]),
+        /RevealPhaseNotEnded/
+      );
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+
+      assert.deepEqual(await client.getNonRevealers(), [
+        { bidder: getAddress(silent.account.address), deposit: 1000n, forfeited: 0n },
+      ]);
+      const { slashed } = await client.slashNonRevealers(keeper.account);
+      assert.deepEqual(slashed, [
+        { bidder: getAddress(silent.account.address), amount: 1000n, bounty: 0n },
+      ]);
+      assert.equal(await auction.read.getForfeited([silent.account.address]), 1000n);
+      assert.equal(await auction.read.getDeposit([silent.account.address]), 0n);
+      assert.equal(await auction.read.proceeds(), 1000n);
+
+      // Finalizing adds the winning bid to what was forfeited.
+      await client.finalize(owner.account);
+      assert.equal(await auction.read.proceeds(), 1300n);
+      assert.equal((await client.withdrawProceeds(owner.account)).amount, 1300n);
+      assert.equal((await client.claimRefund(revealer.account)).amount, 700n);
+
+      await assert.rejects(
+        client.slashNonRevealers(keeper.account, [silent.account.address]),
+        /NothingToSlash/
+      );
+      await assert.rejects(
+        client.slashNonRevealers(keeper.account, [revealer.account.address]),
+        /NothingToSlash/
+      );
+    });
+
+    it("Should skip bidders with nothing to slash and slash the rest", async function () {
+      const { viem } = await hre.network.connect();
+      const { auction, client, testClient, revealer, silent, keeper } =
+        await runWithNonRevealer(viem, 1_000n);
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+
+      // A revealer and a repeated entry do not stop the silent bidder's slash.
+      const batch = [revealer.account.address, silent.account.address, silent.account.address];
+      const { slashed } = await client.slashNonRevealers(keeper.account, batch);
+      assert.deepEqual(slashed, [
+        { bidder: getAddress(silent.account.address), amount: 1000n, bounty: 100n },
+      ]);
+      assert.equal(await auction.read.proceeds(), 900n);
+
+      // Run again, e.g. after another keeper's slash landed first: nothing is left.
+      await assert.rejects(client.slashNonRevealers(keeper.account, batch), /NothingToSlash/);
+      assert.equal(await auction.read.getForfeited([silent.account.address]), 1000n);
+    });
+
+    it("Should refuse to refund a bid that was never revealed", async function () {
+      const { viem } = await hre.network.connect();
+      const { client, testClient, owner, silent } = await runWithNonRevealer(viem);
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+      await client.finalize(owner.account);
+
+      await assert.rejects(client.claimRefund(silent.account), /BidNotRevealed/);
+    });
+
+    it("Should pay the slasher the bounty share", async function () {
+      const { viem } = await hre.network.connect();
+      const { auction, client, testClient, silent, keeper } = await runWithNonRevealer(
+        viem,
+        2_500n
+      );
+      assert.equal(await client.getSlashBounty(), 2_500n);
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+
+      const publicClient = await viem.getPublicClient();
+      const before = await publicClient.getBalance({ address: keeper.account.address });
+      const { slashed, receipt } = await client.slashNonRevealers(keeper.account, [
+        silent.account.address,
+      ]);
+      const after = await publicClient.getBalance({ address: keeper.account.address });
+
+      assert.equal(slashed[0].bounty, 250n);
+      assert.equal(after - before, 250n - receipt.gasUsed * receipt.effectiveGasPrice);
+      assert.equal(await auction.read.proceeds(), 750n);
+    });
+
+    it("Should only accept a bounty up to 100% before bidding", async function () {
+      const { viem } = await hre.network.connect();
+      const [owner, bidder] = await viem.getWalletClients();
+      const auction = await viem.deployContract("SealedBidAuction", [
+        60n,
+        60n,
+        owner.account.address,
+      ]);
+      await assert.rejects(auction.write.setSlashBounty([10_001n]), /InvalidSlashBounty/);
+      await auction.write.setSlashBounty([10_000n]);
+
+      const commitment = commitmentFor(auction.address, bidder.account.address, 10n, "bounty");
+      await auction.write.commitBid([commitment], { account: bidder.account, value: 10n });
+      await assert.rejects(auction.write.setSlashBounty([0n]), /BiddingStarted/);
+    });
+  });
+
+  describe("Soft Close", async function () {
+    it("Should extend both phases for a late commit, up to the cap", async function () {
+      const { viem } = await hre.network.connect();
+      const [owner, ...wallets] = await viem.getWalletClients();
+      const auction = await viem.deployContract("SealedBidAuction", [
+        600n,
+        600n,
+        owner.account.address,
+      ]);
+      const client = await AuctionClient.connect(viem, auction.address);
+      await client.setSoftClose(owner.account, { window: 60n, extension: 45n, cap: 100n });
+      const testClient = await viem.getTestClient();
+
+      // Mines a block `secondsLeft` + 1 before the current end, so the next
+      // commit lands `secondsLeft` before it.
+      async function commitWithSecondsLeft(index: number, secondsLeft: bigint) {
+        const { commitEndTime } = await client.getTimeline();
+        await testClient.setNextBlockTimestamp({ timestamp: commitEndTime - secondsLeft - 1n });
+        await testClient.mine({ blocks: 1 });
+        await client.commit(wallets[index].account, 100n, `late-${index}`);
+      }
+
+      const { commitEndTime: end, revealEndTime: revealEnd } = await client.getTimeline();
+      await commitWithSecondsLeft(0, 300n);
+      assert.equal(await auction.read.commitEndTime(), end);
+
+      await commitWithSecondsLeft(1, 30n);
+      const events = await auction.getEvents.CommitPhaseExtended();
+      assert.equal(events.length, 1);
+      assert.equal(events[0].args.commitEndTime, end + 45n);
+      assert.equal(events[0].args.revealEndTime, revealEnd + 45n);
+
+      // 45 more, then the 10 left under the cap, then nothing.
+      await commitWithSecondsLeft(2, 10n);
+      await commitWithSecondsLeft(3, 10n);
+      await commitWithSecondsLeft(4, 10n);
+      assert.equal(await auction.read.commitEndTime(), end + 100n);
+      assert.equal(await auction.read.revealEndTime(), revealEnd + 100n);
+      assert.deepEqual(await client.getSoftClose(), {
+        window: 60n,
+        extension: 45n,
+        cap: 100n,
+        extended: 100n,
+      });
+      assert.equal(await client.getPhase(), "commit");
+    });
+
+    it("Should reject an invalid soft close", async function () {
+      const { viem } = await hre.network.connect();
+      const [owner, bidder] = await viem.getWalletClients();
+      const auction = await viem.deployContract("SealedBidAuction", [
+        600n,
+        600n,
+        owner.account.address,
+      ]);
+      const client = await AuctionClient.connect(viem, auction.address);
+      assert.equal(await client.getSoftClose(), null);
+
+      for (const rule of [
+        { window: 60n, extension: 0n, cap: 0n },
+        { window: 0n, extension: 30n, cap: 30n },
+        { window: 60n, extension: 30n, cap: 20n },
+      ]) {
+        await assert.rejects(client.setSoftClose(owner.account, rule), /InvalidSoftClose/);
+      }
+      await client.commit(bidder.account, 100n, "soft-close");
+      await assert.rejects(
+        client.setSoftClose(owner.account, { window: 60n, extension: 30n, cap: 30n }),
+        /BiddingStarted/
+      );
+    });
+  });
+
+  describe("Cancellation and Pause", async function () {
+    it("Should refund every deposit, revealed or not, after a cancellation", async function () {
+      const { viem } = await hre.network.connect();
+      const [owner, revealer, silent] = await viem.getWalletClients();
+      const auction = await viem.deployContract("SealedBidAuction", [
+        60n,
+        60n,
+        owner.account.address,
+      ]);
+      const client = await AuctionClient.connect(viem, auction.address);
+      await client.commit(revealer.account, 300n, "revealer", 1000n);
+      await client.commit(silent.account, 500n, "silent", 1000n);
+
+      const testClient = await viem.getTestClient();
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+      await client.reveal(revealer.account, 300n, "revealer");
+
+      await assert.rejects(client.cancel(revealer.account), /OwnableUnauthorizedAccount/);
+      const receipt = await client.cancel(owner.account);
+      const events = await auction.getEvents.AuctionCancelled({ blockHash: receipt.blockHash });
+      assert.equal(events.length, 1);
+      assert.equal(await client.getPhase(), "cancelled");
+      await assert.rejects(client.cancel(owner.account), /AuctionAlreadyCancelled/);
+      await assert.rejects(client.reveal(silent.account, 500n, "silent"), /AuctionAlreadyCancelled/);
+
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+      await assert.rejects(client.finalize(owner.account), /AuctionAlreadyCancelled/);
+      await assert.rejects(
+        client.slashNonRevealers(owner.account, [silent.account.address]),
+        /AuctionAlreadyCancelled/
+      );
+
+      assert.equal((await client.claimRefund(revealer.account)).amount, 1000n);
+      assert.deepEqual(await client.getNonRevealers(), [
+        { bidder: getAddress(silent.account.address), deposit: 1000n, forfeited: 0n },
+      ]);
+      assert.equal((await client.claimRefund(silent.account)).amount, 1000n);
+      assert.equal(await auction.read.proceeds(), 0n);
+    });
+
+    it("Should mark a non-revealer refunded after a cancellation", async function () {
+      const { viem } = await hre.network.connect();
+      const [owner, silent] = await viem.getWalletClients();
+      const auction = await viem.deployContract("SealedBidAuction", [
+        60n,
+        60n,
+        owner.account.address,
+      ]);
+      const client = await AuctionClient.connect(viem, auction.address);
+      await client.commit(silent.account, 500n, "silent", 1000n);
+      await client.cancel(owner.account);
+
+      const refund = await client.claimRefundIfDue(silent.account);
+      assert.equal(refund.status, "refunded");
+      assert.equal(refund.amount, 1000n);
+
+      assert.equal(await client.getBidderState(silent.account.address), "refunded");
+      assert.equal(await auction.read.hasRevealed([silent.account.address]), false);
+      assert.equal((await client.claimRefundIfDue(silent.account)).status, "already-refunded");
+      assert.deepEqual(await client.getNonRevealers(), []);
+    });
+
+    it("Should not cancel a finalized auction", async function () {
+      const { viem } = await hre.network.connect();
+      const [owner, bidder] = await viem.getWalletClients();
+      const auction = await viem.deployContract("SealedBidAuction", [
+        60n,
+        60n,
+        owner.account.address,
+      ]);
+      const client = await AuctionClient.connect(viem, auction.address);
+      await client.commit(bidder.account, 300n, "finalized");
+
+      const testClient = await viem.getTestClient();
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+      await client.reveal(bidder.account, 300n, "finalized");
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+      await client.finalize(owner.account);
+
+      await assert.rejects(client.cancel(owner.account), /AuctionAlreadyFinalized/);
+    });
+
+    it("Should block commits and reveals while paused", async function () {
+      const { viem } = await hre.network.connect();
+      const [owner, bidder] = await viem.getWalletClients();
+      const auction = await viem.deployContract("SealedBidAuction", [
+        60n,
+        60n,
+        owner.account.address,
+      ]);
+      const client = await AuctionClient.connect(viem, auction.address);
+
+      await assert.rejects(client.pause(bidder.account), /OwnableUnauthorizedAccount/);
+      await client.pause(owner.account);
+      assert.equal(await client.isPaused(), true);
+      await assert.rejects(client.pause(owner.account), /EnforcedPause/);
+      await assert.rejects(client.commit(bidder.account, 300n, "paused"), /EnforcedPause/);
+      await client.unpause(owner.account);
+      await client.commit(bidder.account, 300n, "paused");
+
+      const testClient = await viem.getTestClient();
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+      await client.pause(owner.account);
+      await assert.rejects(client.reveal(bidder.account, 300n, "paused"), /EnforcedPause/);
+      await client.unpause(owner.account);
+      await assert.rejects(client.unpause(owner.account), /ExpectedPause/);
+      await client.reveal(bidder.account, 300n, "paused");
+      assert.equal(await client.getBidderState(bidder.account.address), "revealed");
+    });
+
+    it("Should give back the reveal time spent paused", async function () {
+      const { viem } = await hre.network.connect();
+      const [owner, bidder, slasher] = await viem.getWalletClients();
+      const auction = await viem.deployContract("SealedBidAuction", [
+        60n,
+        60n,
+        owner.account.address,
+      ]);
+      const client = await AuctionClient.connect(viem, auction.address);
+      await client.commit(bidder.account, 300n, "paused-out", 1000n);
+
+      const testClient = await viem.getTestClient();
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+      const commitEndTime = await auction.read.commitEndTime();
+      const revealEndTime = await auction.read.revealEndTime();
+      const pausedIn = (await client.pause(owner.account)).blockNumber;
+
+      // Well past the reveal end, nobody can slash or finalize while paused.
+      await testClient.increaseTime({ seconds: 600 });
+      await testClient.mine({ blocks: 1 });
+      await assert.rejects(
+        client.slashNonRevealers(slasher.account, [bidder.account.address]),
+        /EnforcedPause/
+      );
+      await assert.rejects(client.finalize(owner.account), /EnforcedPause/);
+
+      const publicClient = await viem.getPublicClient();
+      const timeOf = async (blockNumber: bigint) =>
+        (await publicClient.getBlock({ blockNumber })).timestamp;
+      const receipt = await client.unpause(owner.account);
+      const pausedFor = (await timeOf(receipt.blockNumber)) - (await timeOf(pausedIn));
+      // The commit phase was over and stays over; the reveal phase resumes.
+      assert.equal(await auction.read.commitEndTime(), commitEndTime);
+      assert.equal(await auction.read.revealEndTime(), revealEndTime + pausedFor);
+      assert.equal(await client.getPhase(), "reveal");
+
+      await assert.rejects(
+        client.slashNonRevealers(slasher.account, [bidder.account.address]),
+        /RevealPhaseNotEnded/
+      );
+      await client.reveal(bidder.account, 300n, "paused-out");
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+      await client.finalize(owner.account);
+      assert.equal(await auction.read.proceeds(), 300n);
+      assert.equal((await client.claimRefund(bidder.account)).amount, 700n);
+    });
+  });
+
+  describe("Tie-Break", async function () {
+    type Viem = Awaited<ReturnType<typeof hre.network.connect>>["viem"];
+
+    // Three bidders tie at 500; bidder 2 reveals first and bidder 0 last.
+    async function runTie(viem: Viem, policy: TieBreak) {
+      const [owner, ...wallets] = await viem.getWalletClients();
+      const auction = await viem.deployContract("SealedBidAuction", [
+        60n,
+        60n,
+        owner.account.address,
+      ]);
+      const client = await AuctionClient.connect(viem, auction.address);
+      await client.setTieBreak(owner.account, policy);
+
+      const bidders = wallets.slice(0, 3);
+      for (const [i, wallet] of bidders.entries()) {
+        await client.commit(wallet.account, 500n, `tie-${i}`);
+      }
+      const testClient = await viem.getTestClient();
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+      for (const i of [2, 1, 0]) {
+        await client.reveal(bidders[i].account, 500n, `tie-${i}`);
+      }
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+
+      await client.finalize(owner.account);
+      const { bids, actual, mismatches } = await checkAllocation(client);
+      assert.deepEqual(mismatches, []);
+      const winner = getAddress(await auction.read.winner());
+      return { auction, client, bidders, bids, actual, winner };
+    }
+
+    it("Should give ties to the earliest commit by default", async function () {
+      const { viem } = await hre.network.connect();
+      const { client, bidders, bids, actual, winner } = await runTie(viem, "earliest-commit");
+
+      assert.equal(await client.getTieBreak(), "earliest-commit");
+      assert.equal(winner, getAddress(bidders[0].account.address));
+      assert.deepEqual(
+        findTieLosses(bids, actual).map(({ bidder }) => bidder),
+        [getAddress(bidders[1].account.address), getAddress(bidders[2].account.address)]
+      );
+    });
+
+    it("Should give ties to the earliest reveal", async function () {
+      const { viem } = await hre.network.connect();
+      const { auction, bidders, winner } = await runTie(viem, "earliest-reveal");
+
+      assert.equal(winner, getAddress(bidders[2].account.address));
+      assert.equal(await auction.read.getTieBreakKey([bidders[0].account.address]), 2n);
+    });
+
+    it("Should give ties to the lowest draw from the commitment seed", async function () {
+      const { viem } = await hre.network.connect();
+      const { auction, bidders, winner } = await runTie(viem, "random");
+
+      let seed = `0x${"00".repeat(32)}` as `0x${string}`;
+      for (const wallet of bidders) {
+        const commitment = await auction.read.getCommitment([wallet.account.address]);
+        seed = keccak256(encodePacked(["bytes32", "bytes32"], [seed, commitment]));
+      }
+      assert.equal(await auction.read.tieBreakSeed(), seed);
+
+      const draws = bidders.map((wallet) =>
+        BigInt(keccak256(encodePacked(["bytes32", "address"], [seed, wallet.account.address])))
+      );
+      const lowest = draws.indexOf(draws.reduce((min, draw) => (draw < min ? draw : min)));
+      assert.equal(winner, getAddress(bidders[lowest].account.address));
+      assert.equal(await auction.read.getTieBreakKey([bidders[lowest].account.address]), draws[lowest]);
+    });
+
+    it("Should not change the policy once bidding started", async function () {
+      const { viem } = await hre.network.connect();
+      const [owner, bidder] = await viem.getWalletClients();
+      const auction = await viem.deployContract("SealedBidAuction", [
+        60n,
+        60n,
+        owner.account.address,
+      ]);
+      await assert.rejects(
+        auction.write.setTieBreak([1], { account: bidder.account }),
+        /OwnableUnauthorizedAccount/
+      );
+
+      const commitment = commitmentFor(auction.address, bidder.account.address, 10n, "tie");
+      await auction.write.commitBid([commitment], { account: bidder.account, value: 10n });
+      await assert.rejects(auction.write.setTieBreak([1]), /BiddingStarted/);
+    });
+  });
+
+  describe("Scalable Finalization", async function () {
+    type Viem = Awaited<ReturnType<typeof hre.network.connect>>["viem"];
+
+    // Commits and reveals a bid from each of `count` impersonated accounts,
+    // in reverse commit order, then finalizes. Returns the finalize gas.
+    async function runWithBidders(viem: Viem, count: number) {
+      const [owner] = await viem.getWalletClients();
+      const testClient = await viem.getTestClient();
+      const publicClient = await viem.getPublicClient();
+      const auction = await viem.deployContract("SealedBidAuction", [
+        86_400n,
+        86_400n,
+        owner.account.address,
+      ]);
+
+      const bidders = Array.from({ length: count }, (_, i) =>
+        getAddress(`0xb1d0${(i + 1).toString(16).padStart(36, "0")}`)
+      );
+      // Prices repeat every 97 bidders, so the top price is tied many times over.
+      const amounts = bidders.map((_, i) => BigInt(1 + (i * 31) % 97));
+      for (const [i, bidder] of bidders.entries()) {
+        await testClient.impersonateAccount({ address: bidder });
+        await testClient.setBalance({ address: bidder, value: 10n ** 18n });
+        const commitment = commitmentFor(auction.address, bidder, amounts[i], `bench-${i}`);
+        await auction.write.commitBid([commitment], { account: bidder, value: 1000n });
+      }
+
+      await testClient.increaseTime({ seconds: 86_401 });
+      await testClient.mine({ blocks: 1 });
+      for (let i = count - 1; i >= 0; i--) {
+        await auction.write.revealBid([amounts[i], `bench-${i}`], { account: bidders[i] });
+      }
+      await testClient.increaseTime({ seconds: 86_401 });
+      await testClient.mine({ blocks: 1 });
+
+      const hash = await auction.write.finalizeAuction({ account: owner.account });
+      const { gasUsed } = await publicClient.waitForTransactionReceipt({ hash });
+      return { auction, bidders, amounts, gasUsed };
+    }
+
+    it("Should give a tie to the earlier committer even if it reveals later", async function () {
+      const { viem } = await hre.network.connect();
+      const [owner, first, second] = await viem.getWalletClients();
+      const auction = await viem.deployContract("SealedBidAuction", [
+        60n,
+        60n,
+        owner.account.address,
+      ]);
+      for (const wallet of [first, second]) {
+        const commitment = commitmentFor(auction.address, wallet.account.address, 500n, "tie");
+        await auction.write.commitBid([commitment], { account: wallet.account, value: 500n });
+      }
+
+      const testClient = await viem.getTestClient();
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+      await auction.write.revealBid([500n, "tie"], { account: second.account });
+      await auction.write.revealBid([500n, "tie"], { account: first.account });
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+      await auction.write.finalizeAuction({ account: owner.account });
+
+      assert.equal(getAddress(await auction.read.winner()), getAddress(first.account.address));
+      assert.equal(await auction.read.secondHighestBid(), 500n);
+    });
+
+    it("Should finalize at the same cost with 10 or 1,000 bidders", async function () {
+      const { viem } = await hre.network.connect();
+      const small = await runWithBidders(viem, 10);
+      const large = await runWithBidders(viem, 1000);
+
+      console.log(`\n   finalizeAuction gas: ${small.gasUsed} (10 bidders), ${large.gasUsed} (1,000 bidders)`);
+      const difference = large.gasUsed > small.gasUsed
+        ? large.gasUsed - small.gasUsed
+        : small.gasUsed - large.gasUsed;
+      assert.ok(difference * 100n < small.gasUsed, "finalize gas should not grow with bidders");
+
+      // The first committer of the top price (97, bidder 25) wins, and its
+      // tie with bidder 122 sets the second-highest bid.
+      for (const { auction, bidders, amounts } of [small, large]) {
+        const top = amounts.reduce((max, amount) => (amount > max ? amount : max));
+        const first = amounts.indexOf(top);
+        assert.equal(await auction.read.winner(), bidders[first]);
+        assert.equal(await auction.read.highestBid(), top);
+      }
+      assert.equal(await large.auction.read.winner(), large.bidders[25]);
+      assert.equal(await large.auction.read.secondHighestBid(), 97n);
+    });
+  });
+
+  describe("Edge Cases", async function () {
+    it("Should handle zero bid", async function () {
+      const { viem } = await hre.network.connect();
+      const [owner, zeroBidder, bidder] = await viem.getWalletClients();
+      const auction = await viem.deployContract("SealedBidAuction", [
+        60n,
+        60n,
+        owner.account.address,
+      ]);
+      const client = await AuctionClient.connect(viem, auction.address);
+
+      assert.equal(await client.getBidderState(zeroBidder.account.address), "none");
+      await client.commit(zeroBidder.account, 0n, "zero-bid-secret", 1000n);
+      await client.commit(bidder.account, 2000n, "bid-secret");
+      assert.equal(await client.getBidderState(zeroBidder.account.address), "committed");
+
+      const testClient = await viem.getTestClient();
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+      await client.reveal(zeroBidder.account, 0n, "zero-bid-secret");
+      await client.reveal(bidder.account, 2000n, "bid-secret");
+
+      // A zero reveal counts once, like any other.
+      assert.equal(await auction.read.hasRevealed([zeroBidder.account.address]), true);
+      assert.equal(await client.getBidderState(zeroBidder.account.address), "revealed");
+      await assert.rejects(
+        client.reveal(zeroBidder.account, 0n, "zero-bid-secret"),
+        /BidderAlreadyRevealed/
+      );
+
+      await testClient.increaseTime({ seconds: 61 });
+      await testClient.mine({ blocks: 1 });
+      await client.finalize(zeroBidder.account);
+      assert.equal(getAddress(await auction.read.winner()), getAddress(bidder.account.address));
+      assert.deepEqual(await client.getNonRevealers(), []);
+      await assert.rejects(
+        client.slashNonRevealers(owner.account, [zeroBidder.account.address]),
+        /NothingToSlash/
+      );
+
+      assert.equal((await client.claimRefund(zeroBidder.account)).amount, 1000n);
+      assert.deepEqual(await client.getBidderStates(), [
+        { bidder: getAddress(zeroBidder.account.address), state: "refunded" },
+        { bidder: getAddress(bidder.account.address), state: "won" },
+      ]);
     });
 
     it("Should handle very large bid amounts", async function () {
@@ -562,9 +1853,12 @@ describe("SealedBidAuction", async function () {
 
       const bidAmount = 1n << 100n;
       const secret = "large-bid-secret";
-      const commitment = keccak256(
-        encodePacked(["uint256", "string"], [bidAmount, secret])
-      ) as `0x${string}`;
+      const commitment = commitmentFor(
+        auction.address,
+        walletClient.account.address,
+        bidAmount,
+        secret
+      );
 
       await auction.write.commitBid([commitment]);
 
@@ -584,9 +1878,12 @@ describe("SealedBidAuction", async function () {
 
       const bidAmount = 99n;
       const secret = "a".repeat(1000);
-      const commitment = keccak256(
-        encodePacked(["uint256", "string"], [bidAmount, secret])
-      ) as `0x${string}`;
+      const commitment = commitmentFor(
+        auction.address,
+        walletClient.account.address,
+        bidAmount,
+        secret
+      );
 
       await auction.write.commitBid([commitment]);
 
@@ -624,9 +1921,12 @@ describe("SealedBidAuction", async function () {
       ];
 
       for (const bid of bids) {
-        const commitment = keccak256(
-          encodePacked(["uint256", "string"], [bid.amount, bid.secret])
-        ) as `0x${string}`;
+        const commitment = commitmentFor(
+          auction.address,
+          bid.wallet.account.address,
+          bid.amount,
+          bid.secret
+        );
         await auction.write.commitBid([commitment], { account: bid.wallet.account });
       }
 
@@ -0,0 +1,124 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import hre from "hardhat";
+import { getAddress, zeroAddress } from "viem";
+import { AuctionClient } from "../scripts/auction-client.js";
+import { formatAmount, parseAmount } from "../scripts/payment-asset.js";
+
+type Viem = Awaited<ReturnType<typeof hre.network.connect>>["viem"];
+
+async function increaseTime(viem: Viem, seconds: number) {
+  const testClient = await viem.getTestClient();
+  await testClient.increaseTime({ seconds });
+  await testClient.mine({ blocks: 1 });
+}
+
+async function deployFixture(viem: Viem) {
+  const [owner, bidderA, bidderB] = await viem.getWalletClients();
+  const token = await viem.deployContract("MockERC20", ["Test USD", "TUSD", 6]);
+  const deployed = await viem.deployContract("SealedBidAuctionERC20", [
+    60n,
+    60n,
+    owner.account.address,
+    token.address,
+  ]);
+  for (const bidder of [bidderA, bidderB]) {
+    await token.write.mint([bidder.account.address, 1_000_000_000n]);
+  }
+  const client = await AuctionClient.connect(viem, deployed.address);
+  return { owner, bidderA, bidderB, token, deployed, client };
+}
+
+describe("SealedBidAuctionERC20", async function () {
+  it("Should read the token's symbol and decimals", async function () {
+    const { viem } = await hre.network.connect();
+    const { token, client } = await deployFixture(viem);
+
+    assert.deepEqual(client.asset, {
+      token: getAddress(token.address),
+      symbol: "TUSD",
+      decimals: 6,
+    });
+    assert.equal(parseAmount("1.5", client.asset), 1_500_000n);
+    assert.equal(formatAmount(1_500_000n, client.asset), "1.5 TUSD");
+  });
+
+  it("Should reject the zero address as payment token", async function () {
+    const { viem } = await hre.network.connect();
+    const [owner] = await viem.getWalletClients();
+
+    await assert.rejects(
+      viem.deployContract("SealedBidAuctionERC20", [60n, 60n, owner.account.address, zeroAddress]),
+      /InvalidPaymentToken/
+    );
+  });
+
+  it("Should approve and escrow tokens in one commit", async function () {
+    const { viem } = await hre.network.connect();
+    const { bidderA, token, deployed, client } = await deployFixture(viem);
+
+    const { approval, deposit } = await client.commit(
+      bidderA.account,
+      10_000_000n,
+      "erc20-a",
+      50_000_000n
+    );
+    assert.ok(approval !== undefined);
+    assert.equal(deposit, 50_000_000n);
+    assert.equal(await client.getDeposit(bidderA.account.address), 50_000_000n);
+    assert.equal(await token.read.balanceOf([deployed.address]), 50_000_000n);
+    assert.equal(await client.getEscrowed(), 50_000_000n);
+    assert.equal(await token.read.allowance([bidderA.account.address, deployed.address]), 0n);
+  });
+
+  it("Should skip the approval when the allowance already covers the deposit", async function () {
+    const { viem } = await hre.network.connect();
+    const { bidderA, token, deployed, client } = await deployFixture(viem);
+
+    await token.write.approve([deployed.address, 50_000_000n], { account: bidderA.account });
+    const { approval } = await client.commit(bidderA.account, 10_000_000n, "erc20-a", 50_000_000n);
+    assert.equal(approval, undefined);
+  });
+
+  it("Should not record a commitment when the token transfer fails", async function () {
+    const { viem } = await hre.network.connect();
+    const [, , , poorBidder] = await viem.getWalletClients();
+    const { client } = await deployFixture(viem);
+
+    await assert.rejects(
+      client.commit(poorBidder.account, 1n, "erc20-poor"),
+      /ERC20InsufficientBalance/
+    );
+    assert.equal(await client.getDeposit(poorBidder.account.address), 0n);
+    assert.deepEqual(await client.getBidders(), []);
+  });
+
+  it("Should settle proceeds and refunds in tokens", async function () {
+    const { viem } = await hre.network.connect();
+    const { owner, bidderA, bidderB, token, deployed, client } = await deployFixture(viem);
+
+    await client.commit(bidderA.account, 10_000_000n, "erc20-a", 50_000_000n);
+    await client.commit(bidderB.account, 20_000_000n, "erc20-b", 50_000_000n);
+
+    await increaseTime(viem, 61);
+    await client.reveal(bidderA.account, 10_000_000n, "erc20-a");
+    await client.reveal(bidderB.account, 20_000_000n, "erc20-b");
+
+    await increaseTime(viem, 61);
+    await client.finalize(owner.account);
+    assert.equal(
+      (await deployed.read.winner()).toLowerCase(),
+      bidderB.account.address.toLowerCase()
+    );
+
+    const withdrawn = await client.withdrawProceeds(owner.account);
+    assert.equal(withdrawn.amount, 20_000_000n);
+    assert.equal(await token.read.balanceOf([owner.account.address]), 20_000_000n);
+
+    assert.equal((await client.claimRefund(bidderA.account)).amount, 50_000_000n);
+    assert.equal((await client.claimRefund(bidderB.account)).amount, 30_000_000n);
+    assert.equal(await token.read.balanceOf([bidderA.account.address]), 1_000_000_000n);
+    assert.equal(await token.read.balanceOf([bidderB.account.address]), 980_000_000n);
+    assert.equal(await client.getEscrowed(), 0n);
+  });
+});
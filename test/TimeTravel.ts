@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import hre from "hardhat";
+import { AuctionClient } from "../scripts/auction-client.js";
+import { advancePastCurrentPhase } from "../scripts/time-travel.js";
+
+describe("advancePastCurrentPhase", async function () {
+  it("Should end one phase at a time, even from a phase's last second", async function () {
+    const { viem } = await hre.network.connect();
+    const [owner] = await viem.getWalletClients();
+    const testClient = await viem.getTestClient();
+    const deployed = await viem.deployContract("SealedBidAuction", [
+      60n,
+      60n,
+      owner.account.address,
+    ]);
+    const client = await AuctionClient.connect(viem, deployed.address);
+    const { commitEndTime, revealEndTime } = await client.getTimeline();
+
+    // The commit phase still runs at exactly commitEndTime.
+    await testClient.setNextBlockTimestamp({ timestamp: commitEndTime });
+    await testClient.mine({ blocks: 1 });
+    assert.equal(await client.getPhase(), "commit");
+
+    assert.deepEqual(await advancePastCurrentPhase(client, testClient), {
+      endedPhase: "commit",
+      timestamp: commitEndTime + 1n,
+    });
+    assert.equal(await client.getPhase(), "reveal");
+
+    await testClient.setNextBlockTimestamp({ timestamp: revealEndTime });
+    await testClient.mine({ blocks: 1 });
+    assert.deepEqual(await advancePastCurrentPhase(client, testClient), {
+      endedPhase: "reveal",
+      timestamp: revealEndTime + 1n,
+    });
+    assert.equal(await client.getPhase(), "ended");
+    assert.equal(await advancePastCurrentPhase(client, testClient), undefined);
+  });
+});